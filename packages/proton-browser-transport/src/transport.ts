@@ -1,4 +1,4 @@
-import {Base64u, SessionError} from '@proton/link'
+import {Base64u, isLinkError, SessionError} from '@proton/link'
 import type {
   Bytes,
   LinkChannelSession,
@@ -6,6 +6,7 @@ import type {
   LinkStorage,
   LinkTransport,
   SigningRequest,
+  SigningRequestBatch,
 } from '@proton/link'
 import DialogWidget from './views/Dialog.svelte'
 import {Storage} from './storage'
@@ -24,7 +25,7 @@ export class BrowserTransport implements LinkTransport {
   private requestStatus: boolean
   private requestAccount: string
   private walletType: string
-  private activeRequest?: SigningRequest
+  private activeRequest?: SigningRequest | SigningRequestBatch
   // eslint-disable-next-line no-unused-vars
   private activeCancel?: (reason: string | Error) => void
   private countdownTimer?: NodeJS.Timeout
@@ -132,6 +133,27 @@ export class BrowserTransport implements LinkTransport {
     })
   }
 
+  private displayBatch(batch: SigningRequestBatch) {
+    if (this.requestAccount.length > 0) {
+      batch.requests.forEach((request) => request.setInfoKey('req_account', this.requestAccount))
+    }
+
+    // responses are matched to the batch requests by their data, same device info
+    // would have to be part of the requests the wallet signs, the link opens the batch as is
+    const uri = batch.encode(true, false)
+    const qrData = {
+      code: GenerateQrCode(uri),
+      link: uri,
+    }
+
+    this.showDialog({
+      title: 'Scan the QR-Code',
+      subtitle: `Sign ${batch.requests.length} transactions`,
+      showFootnote: false,
+      content: {qrData},
+    })
+  }
+
   public async showLoading() {
     this.showDialog({
       title: 'Pending...',
@@ -152,6 +174,17 @@ export class BrowserTransport implements LinkTransport {
     }
   }
 
+  public onBatchRequest(batch: SigningRequestBatch, cancel: (_reason: string | Error) => void) {
+    this.clearTimers()
+    this.activeRequest = batch
+    this.activeCancel = cancel
+    try {
+      this.displayBatch(batch)
+    } catch (e) {
+      cancel(e as string | Error)
+    }
+  }
+
   public onSessionRequest(
     session: LinkSession,
     request: SigningRequest,
@@ -269,7 +302,7 @@ export class BrowserTransport implements LinkTransport {
     if (
       !(
         request === this.activeRequest &&
-        (error['code'] === 'E_DELIVERY' || error['code'] === 'E_TIMEOUT') &&
+        (isLinkError(error, 'E_DELIVERY') || isLinkError(error, 'E_TIMEOUT')) &&
         error['session']
       )
     ) {
@@ -304,15 +337,15 @@ export class BrowserTransport implements LinkTransport {
     return true
   }
 
-  public onSuccess(request: SigningRequest) {
+  public onSuccess(request: SigningRequest | SigningRequestBatch) {
     if (request === this.activeRequest) {
       this.clearTimers()
       this.hide()
     }
   }
 
-  public onFailure(request: SigningRequest, error: Error) {
-    if (request !== this.activeRequest || (error as any)['code'] === 'E_CANCEL') {
+  public onFailure(request: SigningRequest | SigningRequestBatch, error: Error) {
+    if (request !== this.activeRequest || isLinkError(error, 'E_CANCEL')) {
       this.hide()
       return
     }
@@ -331,6 +364,14 @@ export class BrowserTransport implements LinkTransport {
     }
   }
 
+  public onBatchSuccess(batch: SigningRequestBatch) {
+    this.onSuccess(batch)
+  }
+
+  public onBatchFailure(batch: SigningRequestBatch, error: Error) {
+    this.onFailure(batch, error)
+  }
+
   public userAgent() {
     return `BrowserTransport/${BrowserTransport.version} ${navigator.userAgent}`
   }
@@ -1,3 +1,4 @@
+import {parseAssertion} from '@proton/link'
 import type {footNoteDownloadLinks} from './types'
 
 /**
@@ -112,6 +113,11 @@ export function generateReturnUrl() {
 export function parseErrorMessage(error: any) {
   let errorMessage: string
 
+  const assertion = parseAssertion(error)
+  if (assertion !== undefined) {
+    return assertion
+  }
+
   if (error.json && error.json.error) {
     error = error.json.error
   }
@@ -121,10 +127,8 @@ export function parseErrorMessage(error: any) {
   }
 
   if (error.details) {
-    const {code, details, name, what} = error
-    if (name === 'eosio_assert_message_exception') {
-      errorMessage = details[0].message.replace('assertion failure with message: ', '')
-    } else if (details.length > 0) {
+    const {details, what} = error
+    if (details.length > 0) {
       errorMessage = details.map((d) => d.message).join('\n')
     } else {
       errorMessage = what || String(error)
@@ -0,0 +1,90 @@
+/**
+ * Command-line tool for running a buoy relay.
+ *
+ * Usage: proton-buoy [--port <port>] [--host <host>] [--max-payload <bytes>] [--max-wait <seconds>] [--ttl <seconds>]
+ */
+
+import {BuoyServer, BuoyServerOptions} from './server'
+
+const usage = `Usage: proton-buoy [options]
+
+Run a callback and session channel relay for Proton Link.
+
+Options:
+  --port <port>          Port to listen on, defaults to $PORT or 8090.
+  --host <host>          Host to bind to, defaults to all interfaces.
+  --max-payload <bytes>  Maximum message size, defaults to 1048576.
+  --max-wait <seconds>   Maximum time senders and pollers can wait, defaults to 120.
+  --ttl <seconds>        Time undelivered messages are kept, defaults to 600.
+  -h, --help             Show this help.
+`
+
+const numberOptions: Record<string, keyof BuoyServerOptions> = {
+    '--port': 'port',
+    '--max-payload': 'maxPayloadSize',
+    '--max-wait': 'maxWait',
+    '--ttl': 'messageTtl',
+}
+
+function parseArgs(argv: string[]): BuoyServerOptions & {help?: boolean} {
+    const options: BuoyServerOptions & {help?: boolean} = {}
+    if (process.env.PORT) {
+        options.port = Number(process.env.PORT)
+    }
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]
+        if (arg === '-h' || arg === '--help') {
+            options.help = true
+            continue
+        }
+        if (arg !== '--host' && !numberOptions[arg]) {
+            throw new Error(`Unknown option: ${arg}`)
+        }
+        const value = argv[++i]
+        if (value === undefined) {
+            throw new Error(`Missing value for ${arg}`)
+        }
+        if (arg === '--host') {
+            options.host = value
+        } else {
+            const number = Number(value)
+            if (!Number.isInteger(number) || number < 0) {
+                throw new Error(`Invalid value for ${arg}: ${value}`)
+            }
+            options[numberOptions[arg]] = number as any
+        }
+    }
+    return options
+}
+
+async function main(argv: string[]) {
+    let options: BuoyServerOptions & {help?: boolean}
+    try {
+        options = parseArgs(argv)
+    } catch (error) {
+        process.stderr.write(`${(error as Error).message}\n\n${usage}`)
+        return 2
+    }
+    if (options.help) {
+        process.stdout.write(usage)
+        return 0
+    }
+    const server = new BuoyServer(options)
+    try {
+        await server.start()
+    } catch (error) {
+        process.stderr.write(`Error: ${(error as Error).message || String(error)}\n`)
+        return 1
+    }
+    process.stdout.write(`Buoy relay listening on ${server.address}\n`)
+    const shutdown = () => {
+        server.stop().then(() => process.exit(0))
+    }
+    process.on('SIGINT', shutdown)
+    process.on('SIGTERM', shutdown)
+    return 0
+}
+
+main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code
+})
@@ -0,0 +1,419 @@
+import {createServer, IncomingMessage, Server, ServerResponse} from 'http'
+import type {AddressInfo, Socket} from 'net'
+import type {Duplex} from 'stream'
+import WebSocket from 'ws'
+
+export interface BuoyServerOptions {
+    /** Port to listen on, defaults to 8090. Use 0 for a random port. */
+    port?: number
+    /** Host to bind to, defaults to all interfaces. */
+    host?: string
+    /** Maximum message size in bytes, defaults to 1 MiB. */
+    maxPayloadSize?: number
+    /** Maximum seconds a sender or poller can wait, defaults to 120. */
+    maxWait?: number
+    /** Seconds a long-poll waits for a message when not given by the poller, defaults to 60. */
+    pollTimeout?: number
+    /** Seconds undelivered messages are kept, defaults to 600. */
+    messageTtl?: number
+}
+
+/** Delivery status reported to senders in the `X-Buoy-Delivery` header. */
+export type BuoyDelivery = 'delivered' | 'buffered'
+
+/** @internal */
+interface BufferedMessage {
+    data: Buffer
+    expires: number
+    /** Called when the message reaches a listener. */
+    onDeliver?: () => void
+    /** Called when the server stops while the sender is waiting. */
+    abort?: () => void
+}
+
+/** @internal */
+interface Listener {
+    /** Send a message, returns false if the listener is gone. */
+    send(data: Buffer): boolean
+    /** Whether the listener stays subscribed after receiving a message. */
+    persistent: boolean
+    /** Disconnect the listener. */
+    close(): void
+}
+
+/** @internal */
+class Channel {
+    listeners = new Set<Listener>()
+    messages: BufferedMessage[] = []
+
+    get idle() {
+        return this.listeners.size === 0 && this.messages.length === 0
+    }
+
+    /** Deliver to all listeners, returns true if at least one received it. */
+    deliver(data: Buffer) {
+        let delivered = false
+        for (const listener of Array.from(this.listeners)) {
+            if (!listener.persistent) {
+                this.listeners.delete(listener)
+            }
+            if (listener.send(data)) {
+                delivered = true
+            }
+        }
+        return delivered
+    }
+
+    /** Add a listener and flush buffered messages to it. */
+    subscribe(listener: Listener) {
+        const now = Date.now()
+        this.messages = this.messages.filter((message) => message.expires > now)
+        while (this.messages.length > 0) {
+            const message = this.messages.shift()!
+            if (!listener.send(message.data)) {
+                this.messages.unshift(message)
+                return
+            }
+            if (message.onDeliver) {
+                message.onDeliver()
+            }
+            if (!listener.persistent) {
+                return
+            }
+        }
+        this.listeners.add(listener)
+    }
+}
+
+/**
+ * Callback and session channel relay speaking the buoy protocol used by Proton Link.
+ *
+ * Channels are identified by the url path, e.g. `/<uuid>`, and need no registration.
+ *
+ *  - `GET` with a WebSocket upgrade subscribes to a channel, messages are sent as they arrive.
+ *  - `GET` without upgrade long-polls the channel, responding `200` with the next message
+ *     or `408` if none arrived within `X-Buoy-Wait` seconds.
+ *  - `POST` sends a message. Responds `200` if it reached a listener and `202` if it was
+ *     buffered for later. With `X-Buoy-Wait: <seconds>` the response is held until the
+ *     message is delivered, or `408` and the message dropped on timeout. With
+ *     `X-Buoy-Soft-Wait: <seconds>` a timeout responds `202` and keeps the message buffered.
+ *
+ * ```ts
+ * const server = new BuoyServer({port: 8090})
+ * await server.start()
+ * const link = new Link({service: 'http://localhost:8090', ...})
+ * ```
+ */
+export class BuoyServer {
+    readonly port: number
+    readonly host?: string
+    readonly maxPayloadSize: number
+    readonly maxWait: number
+    readonly pollTimeout: number
+    readonly messageTtl: number
+
+    private server?: Server
+    private sockets?: WebSocket.Server
+    private channels = new Map<string, Channel>()
+    private sweeper?: ReturnType<typeof setInterval>
+
+    constructor(options: BuoyServerOptions = {}) {
+        this.port = options.port !== undefined ? options.port : 8090
+        this.host = options.host
+        this.maxPayloadSize = options.maxPayloadSize || 1024 * 1024
+        this.maxWait = options.maxWait || 120
+        this.pollTimeout = options.pollTimeout || 60
+        this.messageTtl = options.messageTtl || 600
+    }
+
+    /** Base url of the server, only available once started. */
+    get address() {
+        if (!this.server) {
+            throw new Error('Buoy server not started')
+        }
+        const {port} = this.server.address() as AddressInfo
+        return `http://${this.host || '127.0.0.1'}:${port}`
+    }
+
+    /** Number of channels with listeners or buffered messages. */
+    get channelCount() {
+        return this.channels.size
+    }
+
+    async start() {
+        if (this.server) {
+            return
+        }
+        const server = createServer((request, response) => {
+            this.handleRequest(request, response).catch((error) => {
+                if (!response.headersSent) {
+                    response.statusCode = 500
+                }
+                response.end(String(error.message || error))
+            })
+        })
+        const sockets = new WebSocket.Server({noServer: true, maxPayload: this.maxPayloadSize})
+        server.on('upgrade', (request, socket, head) => this.handleUpgrade(request, socket, head))
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject)
+            server.listen(this.port, this.host, () => resolve())
+        })
+        this.server = server
+        this.sockets = sockets
+        this.sweeper = setInterval(() => this.sweep(), 10 * 1000)
+        this.sweeper.unref()
+    }
+
+    async stop() {
+        const server = this.server
+        if (!server) {
+            return
+        }
+        clearInterval(this.sweeper)
+        for (const channel of this.channels.values()) {
+            for (const listener of Array.from(channel.listeners)) {
+                listener.close()
+            }
+            for (const message of channel.messages) {
+                if (message.abort) {
+                    message.abort()
+                }
+            }
+        }
+        this.sockets!.close()
+        this.server = undefined
+        this.sockets = undefined
+        this.channels.clear()
+        await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+
+    private async handleRequest(request: IncomingMessage, response: ServerResponse) {
+        response.setHeader('Access-Control-Allow-Origin', '*')
+        response.setHeader('Access-Control-Allow-Headers', '*')
+        response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+        response.setHeader('Access-Control-Expose-Headers', 'X-Buoy-Delivery')
+        if (request.method === 'OPTIONS') {
+            response.statusCode = 200
+            response.end()
+            return
+        }
+        const name = channelName(request.url)
+        if (!name) {
+            if (request.method === 'GET' && (request.url === '/' || request.url === '/health')) {
+                response.end('Ok')
+            } else {
+                response.statusCode = 404
+                response.end('Invalid channel name')
+            }
+            return
+        }
+        switch (request.method) {
+            case 'POST':
+                return this.handleSend(name, request, response)
+            case 'GET':
+                return this.handlePoll(name, request, response)
+            default:
+                response.statusCode = 405
+                response.end()
+        }
+    }
+
+    private async handleSend(name: string, request: IncomingMessage, response: ServerResponse) {
+        let data: Buffer
+        try {
+            data = await readBody(request, this.maxPayloadSize)
+        } catch (error) {
+            response.statusCode = 413
+            response.end((error as Error).message)
+            return
+        }
+        const hardWait = this.waitHeader(request, 'x-buoy-wait')
+        const softWait = this.waitHeader(request, 'x-buoy-soft-wait')
+        const wait = hardWait || softWait
+        const channel = this.getChannel(name)
+        const respond = (status: number, delivery?: BuoyDelivery) => {
+            if (delivery) {
+                response.setHeader('X-Buoy-Delivery', delivery)
+            }
+            response.statusCode = status
+            response.end()
+        }
+        if (channel.deliver(data)) {
+            respond(200, 'delivered')
+            return
+        }
+        const message: BufferedMessage = {data, expires: Date.now() + this.messageTtl * 1000}
+        channel.messages.push(message)
+        if (!wait) {
+            respond(202, 'buffered')
+            return
+        }
+        await new Promise<void>((resolve) => {
+            const timer = setTimeout(() => {
+                message.onDeliver = undefined
+                message.abort = undefined
+                if (hardWait) {
+                    channel.messages = channel.messages.filter((m) => m !== message)
+                    this.removeIdle(name)
+                    respond(408)
+                } else {
+                    respond(202, 'buffered')
+                }
+                resolve()
+            }, wait * 1000)
+            message.onDeliver = () => {
+                clearTimeout(timer)
+                respond(200, 'delivered')
+                resolve()
+            }
+            message.abort = () => {
+                clearTimeout(timer)
+                respond(hardWait ? 408 : 202, hardWait ? undefined : 'buffered')
+                resolve()
+            }
+            // sender gave up, keep the message buffered for soft waits only
+            response.on('close', () => {
+                if (!response.writableEnded) {
+                    clearTimeout(timer)
+                    message.onDeliver = undefined
+                    message.abort = undefined
+                    if (hardWait) {
+                        channel.messages = channel.messages.filter((m) => m !== message)
+                        this.removeIdle(name)
+                    }
+                    resolve()
+                }
+            })
+        })
+    }
+
+    private async handlePoll(name: string, request: IncomingMessage, response: ServerResponse) {
+        const wait = this.waitHeader(request, 'x-buoy-wait') || this.pollTimeout
+        const channel = this.getChannel(name)
+        await new Promise<void>((resolve) => {
+            let done = false
+            const finish = (status: number, data?: Buffer) => {
+                done = true
+                clearTimeout(timer)
+                channel.listeners.delete(listener)
+                this.removeIdle(name)
+                if (!response.writableEnded) {
+                    response.statusCode = status
+                    response.end(data)
+                }
+                resolve()
+            }
+            const listener: Listener = {
+                persistent: false,
+                send: (data) => {
+                    if (done || response.destroyed) {
+                        return false
+                    }
+                    finish(200, data)
+                    return true
+                },
+                close: () => finish(408),
+            }
+            const timer = setTimeout(() => finish(408), wait * 1000)
+            // poller went away
+            response.on('close', () => {
+                if (!done) {
+                    finish(408)
+                }
+            })
+            channel.subscribe(listener)
+        })
+    }
+
+    private handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer) {
+        const name = channelName(request.url)
+        if (!name || !this.sockets) {
+            socket.destroy()
+            return
+        }
+        this.sockets.handleUpgrade(request, socket as Socket, head, (ws) => {
+            const channel = this.getChannel(name)
+            const listener: Listener = {
+                persistent: true,
+                send: (data) => {
+                    if (ws.readyState !== WebSocket.OPEN) {
+                        return false
+                    }
+                    ws.send(data)
+                    return true
+                },
+                close: () => ws.terminate(),
+            }
+            ws.on('close', () => {
+                channel.listeners.delete(listener)
+                this.removeIdle(name)
+            })
+            ws.on('error', () => ws.terminate())
+            channel.subscribe(listener)
+        })
+    }
+
+    private getChannel(name: string) {
+        let channel = this.channels.get(name)
+        if (!channel) {
+            channel = new Channel()
+            this.channels.set(name, channel)
+        }
+        return channel
+    }
+
+    private removeIdle(name: string) {
+        const channel = this.channels.get(name)
+        if (channel && channel.idle) {
+            this.channels.delete(name)
+        }
+    }
+
+    /** Drop expired messages. */
+    private sweep() {
+        const now = Date.now()
+        for (const [name, channel] of this.channels) {
+            channel.messages = channel.messages.filter(
+                (message) => message.expires > now || message.onDeliver
+            )
+            this.removeIdle(name)
+        }
+    }
+
+    private waitHeader(request: IncomingMessage, header: string) {
+        const value = Number(request.headers[header])
+        if (!value || value < 0) {
+            return 0
+        }
+        return Math.min(value, this.maxWait)
+    }
+}
+
+/**
+ * Channel name from request url, the last path segment so the relay can be served
+ * under a prefix. Must be at least 10 url-safe characters.
+ * @internal
+ */
+function channelName(url?: string) {
+    const name = (url || '').split('?')[0].split('/').pop() || ''
+    return /^[\w-]{10,}$/.test(name) ? name : null
+}
+
+/** @internal */
+function readBody(request: IncomingMessage, limit: number) {
+    return new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = []
+        let size = 0
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length
+            if (size > limit) {
+                reject(new Error(`Payload exceeds ${limit} bytes`))
+                request.resume()
+                return
+            }
+            chunks.push(chunk)
+        })
+        request.on('end', () => resolve(Buffer.concat(chunks)))
+        request.on('error', reject)
+    })
+}
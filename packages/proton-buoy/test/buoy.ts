@@ -0,0 +1,129 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {Link} from '@proton/link'
+import WebSocket from 'ws'
+
+import {BuoyServer} from '../src'
+
+const server = new BuoyServer({port: 0, host: '127.0.0.1'})
+
+function channel() {
+    return `${server.address}/test-${Math.random().toString(36).slice(2, 12)}`
+}
+
+function send(url: string, body: string, headers: Record<string, string> = {}) {
+    return fetch(url, {method: 'POST', body, headers})
+}
+
+function subscribe(url: string) {
+    return new Promise<{socket: WebSocket; messages: string[]}>((resolve, reject) => {
+        const socket = new WebSocket(url.replace(/^http/, 'ws'))
+        const messages: string[] = []
+        socket.on('message', (data) => messages.push(data.toString()))
+        socket.on('open', () => resolve({socket, messages}))
+        socket.on('error', reject)
+    })
+}
+
+function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function linkFor(service: string) {
+    return new Link({
+        chains: [
+            {
+                chainId: 'beefface00000000000000000000000000000000000000000000000000000000',
+                nodeUrl: {} as any,
+            },
+        ],
+        transport: {onRequest() {}},
+        service,
+        scheme: 'proton',
+    })
+}
+
+const action = {
+    account: 'eosio.token',
+    name: 'transfer',
+    authorization: [{actor: 'foo', permission: 'active'}],
+    data: '00',
+}
+
+suite('buoy', function () {
+    suiteSetup(async function () {
+        await server.start()
+    })
+
+    suiteTeardown(async function () {
+        await server.stop()
+    })
+
+    test('deliver to websocket listeners', async function () {
+        const url = channel()
+        const {socket, messages} = await subscribe(url)
+        const response = await send(url, 'hello')
+        assert.equal(response.status, 200)
+        assert.equal(response.headers.get('x-buoy-delivery'), 'delivered')
+        await sleep(10)
+        assert.deepEqual(messages, ['hello'])
+        socket.close()
+    })
+
+    test('buffer messages and long-poll', async function () {
+        const url = channel()
+        const buffered = await send(url, 'later')
+        assert.equal(buffered.status, 202)
+        assert.equal(buffered.headers.get('x-buoy-delivery'), 'buffered')
+        const poll = await fetch(url)
+        assert.equal(poll.status, 200)
+        assert.equal(await poll.text(), 'later')
+        const empty = await fetch(url, {headers: {'X-Buoy-Wait': '1'}})
+        assert.equal(empty.status, 408)
+
+        const pending = fetch(url)
+        await sleep(10)
+        assert.equal((await send(url, 'now')).status, 200)
+        assert.equal(await (await pending).text(), 'now')
+    })
+
+    test('wait for delivery', async function () {
+        this.timeout(5 * 1000)
+        const url = channel()
+        const waiting = send(url, 'ack me', {'X-Buoy-Wait': '5'})
+        await sleep(10)
+        const {socket, messages} = await subscribe(url)
+        const acked = await waiting
+        assert.equal(acked.status, 200)
+        assert.deepEqual(messages, ['ack me'])
+        socket.close()
+
+        // hard wait drops the message on timeout, soft wait keeps it
+        const dropped = channel()
+        assert.equal((await send(dropped, 'gone', {'X-Buoy-Wait': '1'})).status, 408)
+        assert.equal((await fetch(dropped, {headers: {'X-Buoy-Wait': '1'}})).status, 408)
+        const kept = channel()
+        assert.equal((await send(kept, 'kept', {'X-Buoy-Soft-Wait': '1'})).status, 202)
+        assert.equal(await (await fetch(kept)).text(), 'kept')
+
+        const large = new BuoyServer({port: 0, maxPayloadSize: 4})
+        await large.start()
+        assert.equal((await send(`${large.address}/too-large-message`, 'hello')).status, 413)
+        await large.stop()
+    })
+
+    test('link callbacks', async function () {
+        for (const service of [server.address, `${server.address}/hyperbuoy`]) {
+            const link = linkFor(service)
+            const {request, callback} = await link.createRequest({action})
+            assert.equal(request.data.callback, callback.url)
+            const response = callback.wait()
+            await sleep(50)
+            assert.equal((await send(callback.url, '{"rejected":"nope"}')).status, 200)
+            assert.deepEqual(await response, {rejected: 'nope'})
+        }
+        await sleep(50)
+        assert.equal(server.channelCount, 0)
+    })
+})
@@ -0,0 +1,51 @@
+import {createRequire} from 'module'
+import fs from 'fs'
+import dts from 'rollup-plugin-dts'
+import typescript from '@rollup/plugin-typescript'
+
+const pkg = createRequire(import.meta.url)('./package.json')
+const production = !process.env.ROLLUP_WATCH
+
+const license = fs.readFileSync('LICENSE').toString('utf-8').trim()
+const banner = `
+/**
+ * Proton Link Mock Wallet v${pkg.version}
+ * ${pkg.homepage}
+ *
+ * @license
+ * ${license.replace(/\n/g, '\n * ')}
+ */
+`.trim()
+
+// node only, no browser bundle
+const external = [...Object.keys({...pkg.dependencies, ...pkg.peerDependencies}), 'http']
+
+export default [
+    {
+        input: 'src/index.ts',
+        output: {
+            banner,
+            file: pkg.main,
+            format: 'cjs',
+            sourcemap: !production,
+        },
+        plugins: [typescript({sourceMap: !production, target: 'es2019'})],
+        external,
+    },
+    {
+        input: 'src/index.ts',
+        output: {
+            banner,
+            file: pkg.module,
+            format: 'esm',
+            sourcemap: !production,
+        },
+        plugins: [typescript({sourceMap: !production, target: 'es2019'})],
+        external,
+    },
+    {
+        input: 'src/index.ts',
+        output: {banner, file: pkg.types, format: 'esm'},
+        plugins: [dts()],
+    },
+]
@@ -0,0 +1,159 @@
+import {createServer, IncomingMessage, Server, ServerResponse} from 'http'
+import type {AddressInfo} from 'net'
+import {Bytes} from '@greymass/eosio'
+import type {LinkCallback, LinkCallbackResponse, LinkCallbackService} from '@proton/link'
+
+/**
+ * Handles a message pushed to a session channel.
+ * @returns The HTTP status code to respond to the link with.
+ */
+export type MockChannelHandler = (message: Uint8Array) => number | Promise<number>
+
+/**
+ * In-process stand-in for the callback forwarder (buoy) service, listening on localhost.
+ *
+ * Implements [[LinkCallbackService]] so it can be passed as the `service` option of a link,
+ * wallets deliver callback payloads with a POST to the callback url. Session channels
+ * are served from the same server, see [[MockCallbackServer.channel]].
+ */
+export class MockCallbackServer implements LinkCallbackService {
+    private server?: Server
+    private callbacks = new Map<string, MockCallback>()
+    private channels = new Map<string, MockChannelHandler>()
+    private origin?: string
+
+    /** Base url of the server, only available once started. */
+    get address() {
+        if (!this.origin) {
+            throw new Error('Callback server not started')
+        }
+        return this.origin
+    }
+
+    /** Start listening on a random port on localhost, unless a port is given. */
+    async start(port = 0) {
+        if (this.server) {
+            return
+        }
+        const server = createServer((request, response) => {
+            this.handle(request, response).catch((error) => {
+                response.statusCode = 500
+                response.end(String(error.message || error))
+            })
+        })
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject)
+            server.listen(port, '127.0.0.1', () => resolve())
+        })
+        const {port: listening} = server.address() as AddressInfo
+        this.server = server
+        this.origin = `http://127.0.0.1:${listening}`
+    }
+
+    /** Stop the server, pending callbacks are cancelled. */
+    async stop() {
+        const server = this.server
+        if (!server) {
+            return
+        }
+        this.server = undefined
+        this.origin = undefined
+        for (const callback of this.callbacks.values()) {
+            callback.cancel()
+        }
+        this.callbacks.clear()
+        this.channels.clear()
+        await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+
+    create(): LinkCallback {
+        const id = randomId()
+        const callback = new MockCallback(`${this.address}/${id}`)
+        this.callbacks.set(id, callback)
+        return callback
+    }
+
+    /**
+     * Open a session channel.
+     * @returns The channel url, sent to the link as `link_ch`.
+     */
+    channel(handler: MockChannelHandler) {
+        const id = randomId()
+        this.channels.set(id, handler)
+        return `${this.address}/channel/${id}`
+    }
+
+    private async handle(request: IncomingMessage, response: ServerResponse) {
+        const body = await readBody(request)
+        const [, first, second] = (request.url || '').split('/')
+        if (request.method !== 'POST') {
+            response.statusCode = 405
+        } else if (first === 'channel') {
+            const handler = this.channels.get(second)
+            response.statusCode = handler ? await handler(body) : 404
+        } else {
+            const callback = this.callbacks.get(first)
+            if (!callback) {
+                response.statusCode = 404
+            } else if (callback.deliver(JSON.parse(Bytes.from(body).toString('utf8')))) {
+                this.callbacks.delete(first)
+                response.statusCode = 200
+            } else {
+                // cancelled by the link, e.g. a response delivered after a timeout
+                response.statusCode = 410
+            }
+        }
+        response.end()
+    }
+}
+
+/** @internal */
+class MockCallback implements LinkCallback {
+    private response?: LinkCallbackResponse
+    private resolve?: (response: LinkCallbackResponse) => void
+    private cancelled = false
+
+    constructor(readonly url: string) {}
+
+    wait() {
+        return new Promise<LinkCallbackResponse>((resolve) => {
+            if (this.response) {
+                resolve(this.response)
+            } else {
+                this.resolve = resolve
+            }
+        })
+    }
+
+    cancel() {
+        this.cancelled = true
+        this.resolve = undefined
+    }
+
+    /** Deliver a response, returns false if the callback was cancelled or already delivered. */
+    deliver(response: LinkCallbackResponse) {
+        if (this.cancelled || this.response) {
+            return false
+        }
+        this.response = response
+        if (this.resolve) {
+            this.resolve(response)
+        }
+        return true
+    }
+}
+
+/** @internal */
+function randomId() {
+    return Bytes.random(16).hexString
+}
+
+/** @internal */
+function readBody(request: IncomingMessage) {
+    return new Promise<Uint8Array>((resolve, reject) => {
+        const chunks: Uint8Array[] = []
+        request.on('data', (chunk: Uint8Array) => chunks.push(chunk))
+        request.on('end', () => resolve(new Uint8Array(Buffer.concat(chunks))))
+        request.on('error', reject)
+    })
+}
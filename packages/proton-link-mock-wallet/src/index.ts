@@ -0,0 +1,2 @@
+export * from './mock-wallet'
+export * from './callback-server'
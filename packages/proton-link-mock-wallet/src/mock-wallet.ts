@@ -0,0 +1,321 @@
+import {AES_CBC} from '@jafri/asmcrypto.js'
+import {
+    Bytes,
+    Checksum256,
+    Checksum512,
+    PermissionLevel,
+    PermissionLevelType,
+    PrivateKey,
+    PrivateKeyType,
+    Serializer,
+    TimePointSec,
+} from '@greymass/eosio'
+import {
+    AbiProvider,
+    CallbackPayload,
+    SigningRequest,
+    SigningRequestBatch,
+    SigningRequestEncodingOptions,
+    TransactionContext,
+    ZlibProvider,
+} from '@proton/signing-request'
+import {SealedMessage} from '@proton/link'
+import type {LinkSession, LinkTransport} from '@proton/link'
+import zlib from 'pako'
+
+import {MockCallbackServer} from './callback-server'
+
+/**
+ * How the wallet answers a request.
+ *  - `approve`: sign and deliver the callback payload.
+ *  - `reject`: deliver a rejection, the link throws a `CancelError`.
+ *  - `timeout`: never answer, see [[MockWallet.cancel]].
+ *  - `late`: sign and deliver after `delay` milliseconds.
+ *  - `offline`: refuse session channel messages, the link throws a `SessionError`
+ *     with code `E_DELIVERY`. Requests not sent over a channel are never answered.
+ */
+export type MockWalletBehavior =
+    | 'approve'
+    | 'reject'
+    | 'timeout'
+    | 'offline'
+    | {type: 'approve'}
+    | {type: 'reject'; reason?: string}
+    | {type: 'timeout'}
+    | {type: 'late'; delay: number}
+    | {type: 'offline'}
+
+export interface MockWalletOptions {
+    /** Keys to sign with, every request is signed with all keys. */
+    keys: PrivateKeyType[]
+    /** Account the wallet signs as, used to resolve placeholders. */
+    signer: PermissionLevelType
+    /**
+     * ABI provider used to decode requests received over a session channel,
+     * e.g. a `LinkChain`. Requests passed to the transport use the link's provider.
+     */
+    abiProvider?: AbiProvider
+    /** Zlib provider used to decode requests received over a session channel, defaults to pako. */
+    zlib?: ZlibProvider
+    /** Whether to offer a session channel when logging in, defaults to true. */
+    channels?: boolean
+    /** Wallet name sent as `link_name`, defaults to `Mock Wallet`. */
+    name?: string
+    /** Client used to fetch TaPoS values, a fixed reference block is used if omitted. */
+    client?: {
+        get_info(): Promise<{
+            head_block_time: any
+            last_irreversible_block_num: any
+            last_irreversible_block_id: any
+        }>
+    }
+    /** Seconds until resolved transactions expire, defaults to 60. */
+    expireSeconds?: number
+    /** Callback server to use, a new one is created if omitted. */
+    service?: MockCallbackServer
+}
+
+/** A request received by the wallet. */
+export interface MockWalletRequest {
+    /** The received request. */
+    request: SigningRequest
+    /** Behavior the wallet used to answer it. */
+    behavior: MockWalletBehavior
+    /** Whether the request was received over a session channel. */
+    channel: boolean
+    /** The delivered response, set once delivered. */
+    response?: CallbackPayload | {rejected: string}
+    /** HTTP status of the delivery, `410` if the link already gave up on the request. */
+    status?: number
+    /** Error that prevented the response from being delivered. */
+    error?: Error
+}
+
+/**
+ * Headless wallet answering signing requests, for testing links without a phone wallet.
+ *
+ * Acts as the link transport and answers requests according to scripted behaviors,
+ * responses are delivered through a local [[MockCallbackServer]] which also serves
+ * the session channels.
+ *
+ * ```ts
+ * const wallet = new MockWallet({keys: [key], signer: 'alice@active'})
+ * await wallet.start()
+ * const link = new Link({chains, transport: wallet, service: wallet.service})
+ * const {session} = await link.login('myapp')
+ * wallet.script({type: 'reject', reason: 'nope'})
+ * await session.transact({action}) // throws CancelError
+ * await wallet.stop()
+ * ```
+ */
+export class MockWallet implements LinkTransport {
+    /** The callback server responses are delivered to. */
+    readonly service: MockCallbackServer
+    /** Account the wallet signs as. */
+    readonly signer: PermissionLevel
+    /** Key used for session channels, sent as `link_key`. */
+    readonly channelKey = PrivateKey.generate('K1')
+    /** Behavior used when no scripted behavior is queued. */
+    defaultBehavior: MockWalletBehavior = 'approve'
+    /** Requests received so far, in order. */
+    readonly requests: MockWalletRequest[] = []
+
+    private keys: PrivateKey[]
+    private options: MockWalletOptions
+    private queue: MockWalletBehavior[] = []
+    private cancels = new Set<(reason: string | Error) => void>()
+    private pending = new Set<Promise<void>>()
+
+    constructor(options: MockWalletOptions) {
+        this.options = options
+        this.keys = options.keys.map((key) => PrivateKey.from(key))
+        this.signer = PermissionLevel.from(options.signer)
+        this.service = options.service || new MockCallbackServer()
+    }
+
+    /** Start the callback server. */
+    start() {
+        return this.service.start()
+    }
+
+    /** Stop the callback server. */
+    stop() {
+        this.queue = []
+        this.cancels.clear()
+        return this.service.stop()
+    }
+
+    /** Queue behaviors for the next requests, each request or batch consumes one. */
+    script(...behaviors: MockWalletBehavior[]) {
+        this.queue.push(...behaviors)
+    }
+
+    /** Cancel all unanswered requests like a user closing the request prompt would. */
+    cancel(reason: string | Error = 'Cancelled') {
+        const cancels = Array.from(this.cancels)
+        this.cancels.clear()
+        for (const cancel of cancels) {
+            cancel(reason)
+        }
+    }
+
+    /** Wait until all responses, including late ones, have been delivered. */
+    async settle() {
+        while (this.pending.size > 0) {
+            await Promise.all(Array.from(this.pending))
+        }
+    }
+
+    onRequest(request: SigningRequest, cancel: (reason: string | Error) => void) {
+        this.cancels.add(cancel)
+        this.receive([request], this.next(), false)
+    }
+
+    onBatchRequest(batch: SigningRequestBatch, cancel: (reason: string | Error) => void) {
+        this.cancels.add(cancel)
+        this.receive(batch.requests, this.next(), false)
+    }
+
+    onSessionRequest(
+        _session: LinkSession,
+        _request: SigningRequest,
+        cancel: (reason: string | Error) => void
+    ) {
+        this.cancels.add(cancel)
+    }
+
+    /** Handle a sealed message pushed to the session channel. */
+    private async onChannelMessage(data: Uint8Array) {
+        const behavior = this.next()
+        if (behaviorType(behavior) === 'offline') {
+            return 410
+        }
+        const sealed = Serializer.decode({data, type: SealedMessage})
+        const uri = unsealMessage(sealed, this.channelKey)
+        const options: SigningRequestEncodingOptions = {
+            abiProvider: this.options.abiProvider,
+            zlib: this.options.zlib || zlib,
+            // decode with whatever scheme the link uses
+            scheme: uri.split(':')[0] as SigningRequestEncodingOptions['scheme'],
+        }
+        const requests = SigningRequestBatch.isBatch(uri)
+            ? SigningRequestBatch.from(uri, options).requests
+            : [SigningRequest.from(uri, options)]
+        this.receive(requests, behavior, true)
+        return 200
+    }
+
+    private next() {
+        return this.queue.shift() || this.defaultBehavior
+    }
+
+    private receive(requests: SigningRequest[], behavior: MockWalletBehavior, channel: boolean) {
+        for (const request of requests) {
+            const received: MockWalletRequest = {request, behavior, channel}
+            this.requests.push(received)
+            const pending = this.respond(received)
+                .catch((error) => {
+                    received.error = error
+                })
+                .finally(() => this.pending.delete(pending))
+            this.pending.add(pending)
+        }
+    }
+
+    private async respond(received: MockWalletRequest) {
+        const {request, behavior} = received
+        let url: string
+        switch (behaviorType(behavior)) {
+            case 'timeout':
+            case 'offline':
+                return
+            case 'reject':
+                url = request.data.callback
+                received.response = {
+                    rejected:
+                        (typeof behavior === 'object' && 'reason' in behavior && behavior.reason) ||
+                        'Rejected',
+                }
+                break
+            case 'late':
+                await sleep((behavior as {delay: number}).delay)
+            // falls through
+            default: {
+                const callback = await this.sign(request, received.channel)
+                url = callback.url
+                received.response = callback.payload
+            }
+        }
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {'Content-Type': 'application/json'},
+            body: JSON.stringify(received.response),
+        })
+        received.status = response.status
+    }
+
+    /** Resolve and sign a request, returns the callback to deliver. */
+    private async sign(request: SigningRequest, channel: boolean) {
+        const abis = await request.fetchAbis(this.options.abiProvider)
+        const resolved = request.resolve(abis, this.signer, await this.getContext())
+        const signatures = this.keys.map((key) => key.signDigest(resolved.signingDigest))
+        const callback = resolved.getCallback(signatures)
+        if (!callback) {
+            throw new Error('Request has no callback')
+        }
+        // requests sent over a channel carry link info instead of the session create info
+        if (!channel && this.options.channels !== false && request.getRawInfoKey('link')) {
+            callback.payload.link_ch = this.service.channel((data) => this.onChannelMessage(data))
+            callback.payload.link_key = String(this.channelKey.toPublic())
+            callback.payload.link_name = this.options.name || 'Mock Wallet'
+        }
+        return callback
+    }
+
+    private async getContext(): Promise<TransactionContext> {
+        const expireMs = (this.options.expireSeconds || 60) * 1000
+        if (!this.options.client) {
+            return {
+                expiration: TimePointSec.fromMilliseconds(Date.now() + expireMs),
+                ref_block_num: 0,
+                ref_block_prefix: 0,
+            }
+        }
+        const info = await this.options.client.get_info()
+        const blockId = Checksum256.from(info.last_irreversible_block_id).array
+        return {
+            expiration: TimePointSec.fromMilliseconds(
+                TimePointSec.from(info.head_block_time).toMilliseconds() + expireMs
+            ),
+            ref_block_num: Number(info.last_irreversible_block_num) & 0xffff,
+            ref_block_prefix: new DataView(blockId.buffer, blockId.byteOffset).getUint32(8, true),
+        }
+    }
+}
+
+/** @internal */
+function behaviorType(behavior: MockWalletBehavior) {
+    return typeof behavior === 'string' ? behavior : behavior.type
+}
+
+/**
+ * Decrypt a message sealed by the link, see `sealMessage` in `@proton/link`.
+ * @internal
+ */
+function unsealMessage(message: SealedMessage, privateKey: PrivateKey) {
+    const secret = privateKey.sharedSecret(message.from)
+    const key = Checksum512.hash(Serializer.encode({object: message.nonce}).appending(secret.array))
+    const checksumView = new DataView(Checksum256.hash(key.array).array.buffer)
+    if (!message.checksum.equals(checksumView.getUint32(0, true))) {
+        throw new Error('Invalid message checksum')
+    }
+    const cbc = new AES_CBC(key.array.slice(0, 32), key.array.slice(32, 48))
+    return Bytes.from(cbc.decrypt(message.ciphertext.array)).toString('utf8')
+}
+
+/** @internal */
+function sleep(ms: number) {
+    return new Promise((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
@@ -0,0 +1,122 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {CancelError, Link, SessionError} from '@proton/link'
+import {ABI, PrivateKey} from '@greymass/eosio'
+import {readFileSync} from 'fs'
+import {join as pathJoin} from 'path'
+
+import {MockWallet} from '../src'
+
+const chainId = 'beefface00000000000000000000000000000000000000000000000000000000'
+const key = PrivateKey.generate('K1')
+const signer = {actor: 'foobar', permission: 'active'}
+const tokenAbi = ABI.from(
+    JSON.parse(readFileSync(pathJoin(__dirname, 'abis', 'eosio.token.json')).toString())
+)
+
+const abiProvider = {
+    async getAbi() {
+        return tokenAbi
+    },
+}
+
+const client = {
+    async get_account() {
+        return {
+            account_name: signer.actor,
+            permissions: [
+                {
+                    perm_name: 'active',
+                    required_auth: {threshold: 1, keys: [{key: key.toPublic(), weight: 1}]},
+                },
+            ],
+        }
+    },
+    async get_abi(account: string) {
+        return {account_name: account, abi: tokenAbi}
+    },
+}
+
+const transfer = {
+    account: 'eosio.token',
+    name: 'transfer',
+    authorization: [signer],
+    data: {from: signer.actor, to: 'teamgreymass', quantity: '1.0000 EOS', memo: ''},
+}
+
+suite('mock wallet', function () {
+    const wallet = new MockWallet({keys: [key], signer, abiProvider})
+    const link = new Link({
+        chains: [{nodeUrl: client as any, chainId}],
+        transport: wallet,
+        service: wallet.service,
+        scheme: 'proton',
+    })
+
+    suiteSetup(async function () {
+        await wallet.start()
+    })
+
+    suiteTeardown(async function () {
+        await wallet.stop()
+    })
+
+    test('login & transact over channel', async function () {
+        const {session} = await link.login('test')
+        assert.equal(session.type, 'channel')
+        assert.equal(String(session.auth), 'foobar@active')
+        assert.equal(session.metadata.name, 'Mock Wallet')
+        const result = await session.transact({action: transfer}, {broadcast: false})
+        assert.equal(String(result.signer), 'foobar@active')
+        assert.deepEqual(
+            wallet.requests.map(({channel}) => channel),
+            [false, true]
+        )
+        await wallet.settle()
+        assert.equal(wallet.requests[1].status, 200)
+    })
+
+    test('scripted failures', async function () {
+        const {session} = await link.login('test')
+
+        wallet.script({type: 'reject', reason: 'no thanks'})
+        await assert.rejects(session.transact({action: transfer}, {broadcast: false}), (error) => {
+            assert.ok(error instanceof CancelError)
+            assert.match(error.message, /no thanks/)
+            return true
+        })
+
+        wallet.script('offline')
+        await assert.rejects(session.transact({action: transfer}, {broadcast: false}), (error) => {
+            assert.ok(error instanceof SessionError)
+            assert.equal(error.code, 'E_DELIVERY')
+            return true
+        })
+
+        wallet.script('timeout')
+        const pending = session.transact({action: transfer}, {broadcast: false})
+        setTimeout(() => wallet.cancel('Took too long'), 50)
+        await assert.rejects(pending, /Took too long/)
+
+        // recovers once the wallet responds again
+        const result = await session.transact({action: transfer}, {broadcast: false})
+        assert.equal(String(result.signer), 'foobar@active')
+    })
+
+    test('late delivery', async function () {
+        wallet.script({type: 'late', delay: 50})
+        const {session} = await link.login('test')
+        assert.equal(String(session.auth), 'foobar@active')
+
+        // responses arriving after the link gave up are refused
+        wallet.script({type: 'late', delay: 100})
+        const pending = link.transact({action: transfer}, {broadcast: false})
+        setTimeout(() => wallet.cancel(), 10)
+        await assert.rejects(pending, CancelError)
+        await wallet.settle()
+        const late = wallet.requests[wallet.requests.length - 1]
+        assert.equal(late.status, 410)
+        assert.equal(late.error, undefined)
+    })
+})
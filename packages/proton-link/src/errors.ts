@@ -1,3 +1,4 @@
+import type {TransactResult} from './link'
 import type {LinkSession} from './link-session'
 
 /**
@@ -6,17 +7,78 @@ import type {LinkSession} from './link-session'
  * - `E_TIMEOUT`: Request was delivered but user/wallet didn't respond in time.
  * - `E_CANCEL`: The [[LinkTransport]] canceled the request.
  * - `E_IDENTITY`: Identity proof failed to verify.
+ * - `E_REPLAY`: Callback payload does not belong to the request.
+ * - `E_SIMULATION`: Transaction failed when simulated before signing.
+ * - `E_FINALITY`: Broadcast transaction expired, was dropped or not confirmed in time.
+ * - `E_POPUP_BLOCKED`: The browser blocked the wallet window from opening.
+ * - `E_WALLET_CLOSED`: The user closed the wallet window before responding.
+ * - `E_WALLET_UNAVAILABLE`: No wallet was selected or the selected wallet can't be used.
+ * - `E_CHAIN_MISMATCH`: The wallet responded for a different chain than requested.
+ * - `E_RPC`: The node could not be reached or rejected the transaction.
+ * - `E_ASSERTION`: A contract assertion failed when the transaction was broadcast.
+ * - `E_STORAGE_KEY`: Stored data can't be decrypted, see [[EncryptedLinkStorage]].
  */
-export type LinkErrorCode = 'E_DELIVERY' | 'E_TIMEOUT' | 'E_CANCEL' | 'E_IDENTITY'
+export type LinkErrorCode =
+    | 'E_DELIVERY'
+    | 'E_TIMEOUT'
+    | 'E_CANCEL'
+    | 'E_IDENTITY'
+    | 'E_REPLAY'
+    | 'E_SIMULATION'
+    | 'E_FINALITY'
+    | 'E_POPUP_BLOCKED'
+    | 'E_WALLET_CLOSED'
+    | 'E_WALLET_UNAVAILABLE'
+    | 'E_CHAIN_MISMATCH'
+    | 'E_RPC'
+    | 'E_ASSERTION'
+    | 'E_STORAGE_KEY'
+
+/**
+ * Base class of all errors with a [[LinkErrorCode]], use [[isLinkError]] to check for them.
+ */
+export class LinkError extends Error {
+    public code: LinkErrorCode
+    constructor(message: string, code: LinkErrorCode) {
+        super(message)
+        this.code = code
+    }
+}
+
+/**
+ * Returns true if `error` is a [[LinkError]], optionally with the given code.
+ * Also matches errors created by another copy of this library, e.g. bundled by a wallet plugin.
+ *
+ * ```ts
+ * try {
+ *     await session.transact({action})
+ * } catch (error) {
+ *     if (isLinkError(error, 'E_ASSERTION')) {
+ *         console.log('Contract said no:', error.assertion)
+ *     } else if (!isLinkError(error, 'E_CANCEL')) {
+ *         throw error
+ *     }
+ * }
+ * ```
+ */
+export function isLinkError<C extends LinkErrorCode>(
+    error: unknown,
+    code?: C
+): error is LinkErrorTypes[C] {
+    const isError =
+        error instanceof LinkError ||
+        (error instanceof Error && /^E_[A-Z_]+$/.test(String((error as any).code)))
+    return isError && (code === undefined || (error as LinkError).code === code)
+}
 
 /**
  * Error that is thrown if a [[LinkTransport]] cancels a request.
  * @internal
  */
-export class CancelError extends Error {
-    public code = 'E_CANCEL'
+export class CancelError extends LinkError {
+    declare code: 'E_CANCEL'
     constructor(reason?: string) {
-        super(`Request cancelled ${reason ? '(' + reason + ')' : ''}`)
+        super(`Request cancelled ${reason ? '(' + reason + ')' : ''}`, 'E_CANCEL')
     }
 }
 
@@ -24,10 +86,84 @@ export class CancelError extends Error {
  * Error that is thrown if an identity request fails to verify.
  * @internal
  */
-export class IdentityError extends Error {
-    public code = 'E_IDENTITY'
+export class IdentityError extends LinkError {
+    declare code: 'E_IDENTITY'
+    constructor(reason?: string) {
+        super(`Unable to verify identity ${reason ? '(' + reason + ')' : ''}`, 'E_IDENTITY')
+    }
+}
+
+/**
+ * Error that is thrown if a callback payload was not sent in response to the request,
+ * e.g. a replayed callback from an earlier request.
+ * @internal
+ */
+export class ReplayError extends LinkError {
+    declare code: 'E_REPLAY'
     constructor(reason?: string) {
-        super(`Unable to verify identity ${reason ? '(' + reason + ')' : ''}`)
+        super(`Invalid callback payload ${reason ? '(' + reason + ')' : ''}`, 'E_REPLAY')
+    }
+}
+
+/**
+ * Error that is thrown if a transaction fails when simulated, see [[TransactOptions.simulate]].
+ * @internal
+ */
+export class SimulationError extends LinkError {
+    declare code: 'E_SIMULATION'
+    /** Index of the failing action in the transaction, if known. */
+    public actionIndex?: number
+    /** The failing action, if known. */
+    public action?: {account: string; name: string}
+    /** Message of the failed assertion or the node error. */
+    public assertion: string
+    /** Raw error returned by the node. */
+    public details: any
+    constructor(
+        assertion: string,
+        actionIndex?: number,
+        action?: {account: string; name: string},
+        details?: any
+    ) {
+        const where =
+            actionIndex !== undefined
+                ? ` in action ${actionIndex}${action ? ` ${action.account}::${action.name}` : ''}`
+                : ''
+        super(`Transaction simulation failed${where} (${assertion})`, 'E_SIMULATION')
+        this.assertion = assertion
+        this.actionIndex = actionIndex
+        this.action = action
+        this.details = details
+    }
+}
+
+/**
+ * Error that is thrown if a broadcast transaction could not be confirmed,
+ * see [[TransactOptions.waitFor]].
+ * @internal
+ */
+export class FinalityError extends LinkError {
+    declare code: 'E_FINALITY'
+    /**
+     * Why the transaction could not be confirmed.
+     *  - `expired`: The transaction expired before it was included in a block.
+     *  - `dropped`: The node reported the transaction as failed.
+     *  - `timeout`: The transaction was not confirmed within [[TransactOptions.waitTimeout]].
+     */
+    public reason: 'expired' | 'dropped' | 'timeout'
+    /** Id of the transaction. */
+    public transactionId: string
+    /** The broadcast result, the transaction may still be confirmed later on timeout. */
+    public result: TransactResult
+    constructor(reason: 'expired' | 'dropped' | 'timeout', result: TransactResult) {
+        const id = String(result.transaction.id)
+        super(
+            `Transaction ${id} ${reason === 'timeout' ? 'not confirmed in time' : reason}`,
+            'E_FINALITY'
+        )
+        this.reason = reason
+        this.transactionId = id
+        this.result = result
     }
 }
 
@@ -35,12 +171,113 @@ export class IdentityError extends Error {
  * Error originating from a [[LinkSession]].
  * @internal
  */
-export class SessionError extends Error {
-    public code: 'E_DELIVERY' | 'E_TIMEOUT'
+export class SessionError extends LinkError {
+    declare code: 'E_DELIVERY' | 'E_TIMEOUT'
     public session: LinkSession
     constructor(reason: string, code: 'E_DELIVERY' | 'E_TIMEOUT', session: LinkSession) {
-        super(reason)
-        this.code = code
+        super(reason, code)
         this.session = session
     }
 }
+
+/**
+ * Error that is thrown if a request to the node failed, e.g. fetching ABIs, chain info or
+ * accounts, or the node rejected a transaction. `E_ASSERTION` if a contract assertion
+ * failed and `E_RPC` otherwise. Failed simulations throw a [[SimulationError]] instead.
+ */
+export class ChainError extends LinkError {
+    declare code: 'E_RPC' | 'E_ASSERTION'
+    /** Message of the failed assertion, set for `E_ASSERTION`. */
+    public assertion?: string
+    /** Response of the node, if any. Same as `RpcError.json` for code handling `RpcError`. */
+    public json?: any
+    /** The original error. */
+    public cause?: any
+    constructor(message: string, json?: any, cause?: any) {
+        const assertion = parseAssertion(json)
+        super(message, assertion !== undefined ? 'E_ASSERTION' : 'E_RPC')
+        this.assertion = assertion
+        this.json = json
+        this.cause = cause
+    }
+
+    /**
+     * Create from an `RpcError`, a fetch error or a raw node response.
+     * Returns `error` as is if it's a [[LinkError]] already.
+     */
+    static from(error: any): LinkError {
+        if (isLinkError(error)) {
+            return error
+        }
+        let json = error && error.json
+        if (!json && !(error instanceof Error)) {
+            // wallets may relay the node response without the RpcError around it
+            json = error
+        }
+        const messages = nodeErrorMessages(json)
+        const message =
+            (error instanceof Error && error.message) ||
+            messages[0] ||
+            (json && json.message) ||
+            String(error)
+        return new ChainError(message, json, error)
+    }
+}
+
+/** Errors by [[LinkErrorCode]], used to narrow the type in [[isLinkError]]. */
+export interface LinkErrorTypes {
+    E_DELIVERY: SessionError
+    E_TIMEOUT: SessionError
+    E_CANCEL: CancelError
+    E_IDENTITY: IdentityError
+    E_REPLAY: ReplayError
+    E_SIMULATION: SimulationError
+    E_FINALITY: FinalityError
+    E_POPUP_BLOCKED: LinkError
+    E_WALLET_CLOSED: LinkError
+    E_WALLET_UNAVAILABLE: LinkError
+    E_CHAIN_MISMATCH: LinkError
+    E_RPC: ChainError
+    E_ASSERTION: ChainError & {assertion: string}
+    E_STORAGE_KEY: LinkError
+}
+
+const assertionPrefix = 'assertion failure with message: '
+
+/**
+ * Collect the messages of an error response from a node, e.g. the `json` of an `RpcError`,
+ * with the placeholders of exception stack entries filled in.
+ * @internal
+ */
+export function nodeErrorMessages(json: any): string[] {
+    const messages: string[] = []
+    if (!json) {
+        return messages
+    }
+    const error = json.error
+    const except = (json.processed && json.processed.except) || (json.result && json.result.except)
+    if (error && Array.isArray(error.details)) {
+        messages.push(...error.details.map((detail: any) => detail.message))
+    }
+    if (except && Array.isArray(except.stack)) {
+        messages.push(
+            ...except.stack.map((entry: any) =>
+                String(entry.format || '').replace(/\$\{(\w+)\}/g, (_, key) =>
+                    entry.data && entry.data[key] !== undefined ? entry.data[key] : ''
+                )
+            )
+        )
+    }
+    return messages.filter((message) => !!message)
+}
+
+/**
+ * Return the message of a failed contract assertion, e.g. `overdrawn balance` for
+ * `check(false, "overdrawn balance")`, from an `RpcError`, [[ChainError]] or node response.
+ * Returns undefined if the error is not an assertion failure.
+ */
+export function parseAssertion(error: any): string | undefined {
+    const json = error && error.json ? error.json : error
+    const message = nodeErrorMessages(json).find((m) => m.startsWith(assertionPrefix))
+    return message !== undefined ? message.slice(assertionPrefix.length) : undefined
+}
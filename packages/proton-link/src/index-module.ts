@@ -2,9 +2,32 @@ export * from './link'
 export * from './link-session'
 export * from './link-types'
 
-export type {LinkOptions, LinkChainConfig} from './link-options'
+export type {LinkOptions, LinkChainConfig, LinkSessionPolicy} from './link-options'
 export type {LinkTransport} from './link-transport'
 export type {LinkStorage} from './link-storage'
+export {EncryptedLinkStorage} from './link-encrypted-storage'
+export type {EncryptedLinkStorageOptions} from './link-encrypted-storage'
+export type {AbiCache, AbiCacheEntry} from './link-abi-cache'
+export {FailoverJsonRpc} from './link-rpc'
+export {LinkRequestQueue} from './link-queue'
+export {fetchContractTypes} from './link-codegen'
+export {LocalCosigner} from './link-cosigner'
+export type {
+    LinkHistoryEntry,
+    LinkHistoryOptions,
+    LinkHistoryQuery,
+    LinkHistoryStatus,
+} from './link-history'
+export type {Cosigner, CosignResult, LocalCosignerOptions} from './link-cosigner'
+export type {FailoverJsonRpcOptions, RpcEndpointStatus} from './link-rpc'
+export type {
+    LinkEvents,
+    LinkEventName,
+    LinkEventListener,
+    LinkRequestEvent,
+    LinkSessionExpiredEvent,
+} from './link-events'
+export {LinkStorageAbiCache} from './link-abi-cache'
 export type {
     LinkCallback,
     LinkCallbackService,
@@ -19,4 +42,7 @@ export {
     ChainId,
     ChainIdType,
     ChainName,
+    CodegenOptions,
+    SignInChallenge,
+    SignInChallengeType,
 } from '@proton/signing-request'
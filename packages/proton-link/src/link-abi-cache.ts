@@ -0,0 +1,65 @@
+import type {ABIDef, Name} from '@greymass/eosio'
+import type {ChainId} from '@proton/signing-request'
+
+import type {LinkStorage} from './link-storage'
+
+/** ABI stored in a [[AbiCache]]. */
+export interface AbiCacheEntry {
+    /** The ABI definition. */
+    abi: ABIDef
+    /** The `abi_hash` reported by the node, used to check if the ABI changed once the entry is stale. */
+    hash?: string
+    /** Time the entry was fetched or last verified, in milliseconds since epoch. */
+    time: number
+}
+
+/**
+ * Interface ABI caches should implement.
+ *
+ * The cache is consulted by [[LinkChain]] before fetching ABIs from the node,
+ * entries older than the configured TTL are verified against the node before use.
+ */
+export interface AbiCache {
+    /** Read cached ABI for account, should return `null` if not cached. */
+    get(chainId: ChainId, account: Name): Promise<AbiCacheEntry | null>
+    /** Store ABI for account, should overwrite existing entries. */
+    set(chainId: ChainId, account: Name, entry: AbiCacheEntry): Promise<void>
+}
+
+/**
+ * ABI cache persisting entries to a [[LinkStorage]].
+ * Used by default when the link has storage.
+ */
+export class LinkStorageAbiCache implements AbiCache {
+    readonly storage: LinkStorage
+    readonly prefix: string
+
+    /**
+     * @param storage Storage to persist ABIs in.
+     * @param prefix Prefix for the storage keys.
+     */
+    constructor(storage: LinkStorage, prefix = 'abi') {
+        this.storage = storage
+        this.prefix = prefix
+    }
+
+    async get(chainId: ChainId, account: Name) {
+        const data = await this.storage.read(this.key(chainId, account))
+        if (!data) {
+            return null
+        }
+        try {
+            return JSON.parse(data) as AbiCacheEntry
+        } catch {
+            return null
+        }
+    }
+
+    async set(chainId: ChainId, account: Name, entry: AbiCacheEntry) {
+        await this.storage.write(this.key(chainId, account), JSON.stringify(entry))
+    }
+
+    private key(chainId: ChainId, account: Name) {
+        return [this.prefix, String(chainId), String(account)].join('-')
+    }
+}
@@ -0,0 +1,23 @@
+import {Name, NameType} from '@greymass/eosio'
+import {CodegenOptions, generateContractTypes} from '@proton/signing-request'
+
+import type {LinkChain} from './link'
+
+/**
+ * Generate TypeScript types and action builders for a contract deployed on chain,
+ * the ABI is loaded with [[LinkChain.getAbi]]. See `esr-codegen` in `@proton/signing-request`
+ * to generate them from ABI files.
+ *
+ * ```ts
+ * const source = await fetchContractTypes(link.chains[0], 'eosio.token')
+ * writeFileSync('src/contracts/eosio.token.ts', source)
+ * ```
+ */
+export async function fetchContractTypes(
+    chain: LinkChain,
+    account: NameType,
+    options?: CodegenOptions
+) {
+    const abi = await chain.getAbi(Name.from(account))
+    return generateContractTypes(account, abi, options)
+}
@@ -0,0 +1,92 @@
+import {
+    Action,
+    Name,
+    NameType,
+    PermissionLevel,
+    PermissionLevelType,
+    PrivateKey,
+    PrivateKeyType,
+    Signature,
+    Transaction,
+} from '@greymass/eosio'
+
+import type {LinkChain} from './link'
+
+/** Transaction and signatures returned by a [[Cosigner]]. */
+export interface CosignResult {
+    /** The transaction the user will sign, including the cosigner action(s). */
+    transaction: Transaction
+    /** Cosigner signatures, they are added in front of the user signature when broadcasting. */
+    signatures: Signature[]
+}
+
+/**
+ * Interface cosigners should implement, see [[LinkOptions.cosigner]].
+ *
+ * A cosigner pays the CPU and NET of transactions for the user by adding an action that it
+ * authorizes in front of the other actions, the first authorizer of a transaction is billed
+ * for its resources.
+ */
+export interface Cosigner {
+    /**
+     * Add the payer action to the transaction and sign it.
+     * @param transaction The resolved transaction, with the signer and TAPOS filled in.
+     * @param chain The chain the transaction is for.
+     */
+    cosign(transaction: Transaction, chain: LinkChain): Promise<CosignResult>
+}
+
+/**
+ * Options for [[LocalCosigner]].
+ */
+export interface LocalCosignerOptions {
+    /** Key to sign with, has to satisfy the `auth` permission. */
+    privateKey: PrivateKeyType
+    /** Permission that authorizes the payer action and is billed for the resources. */
+    auth: PermissionLevelType | string
+    /** Contract of the payer action, defaults to `greymassnoop`. */
+    contract?: NameType
+    /** Name of the payer action, defaults to `noop`. */
+    action?: NameType
+}
+
+/**
+ * Cosigner that signs in-process with a fixed key.
+ *
+ * Meant for tests and local devnets, apps should not ship the key of a paying account.
+ * Use a cosigning service that checks the transactions it pays for instead.
+ *
+ * ```ts
+ * const cosigner = new LocalCosigner({privateKey, auth: 'payer@cosign'})
+ * const link = new ProtonLink({transport, chains, cosigner})
+ * ```
+ */
+export class LocalCosigner implements Cosigner {
+    readonly auth: PermissionLevel
+    readonly contract: Name
+    readonly action: Name
+
+    private privateKey: PrivateKey
+
+    constructor(options: LocalCosignerOptions) {
+        this.privateKey = PrivateKey.from(options.privateKey)
+        this.auth = PermissionLevel.from(options.auth)
+        this.contract = Name.from(options.contract || 'greymassnoop')
+        this.action = Name.from(options.action || 'noop')
+    }
+
+    async cosign(transaction: Transaction, chain: LinkChain) {
+        const noop = Action.from({
+            account: this.contract,
+            name: this.action,
+            authorization: [this.auth],
+            data: '',
+        })
+        const cosigned = Transaction.from({
+            ...transaction,
+            actions: [noop, ...transaction.actions],
+        })
+        const signature = this.privateKey.signDigest(cosigned.signingDigest(chain.chainId))
+        return {transaction: cosigned, signatures: [signature]}
+    }
+}
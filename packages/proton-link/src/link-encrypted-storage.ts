@@ -0,0 +1,203 @@
+import {Bytes, BytesType} from '@greymass/eosio'
+import {Base64u} from '@proton/signing-request'
+
+import {LinkError} from './errors'
+import type {LinkStorage} from './link-storage'
+import {logWarn} from './utils'
+
+/**
+ * Options for [[EncryptedLinkStorage]].
+ */
+export interface EncryptedLinkStorageOptions {
+    /**
+     * AES key to encrypt with, a WebCrypto `CryptoKey` or the raw key bytes (32 bytes for AES-256).
+     * If omitted a non-extractable key is generated on first use and persisted in IndexedDB,
+     * which is only available in browsers.
+     */
+    key?: CryptoKey | BytesType
+    /** IndexedDB database the generated key is persisted in, defaults to `proton-link`. */
+    keyDatabase?: string
+    /** Name of the generated key in the database, defaults to `storage`. */
+    keyName?: string
+    /**
+     * What to do with values that can't be decrypted, e.g. because the browser data holding
+     * the generated key was cleared or a different key was passed.
+     *  - `throw`: Reads throw a [[LinkError]] with code `E_STORAGE_KEY`, the default.
+     *  - `remove`: The value is removed and reads return `null`, users have to log in again.
+     */
+    onKeyLost?: 'throw' | 'remove'
+    /** WebCrypto implementation, defaults to `crypto.subtle`. Pass a polyfill on React Native. */
+    subtle?: SubtleCrypto
+}
+
+/** Prefix of encrypted values, anything else was written before encryption was enabled. */
+const prefix = 'enc1:'
+
+/**
+ * [[LinkStorage]] wrapper that encrypts values with AES-GCM before writing them to another storage,
+ * so session keys are not persisted in plaintext.
+ *
+ * Values written by the wrapped storage before encryption was enabled are returned as is and
+ * encrypted in place on first read. Encrypted values are bound to their storage key and can't
+ * be swapped between keys.
+ *
+ * ```ts
+ * const encrypted = new EncryptedLinkStorage(storage)
+ * const link = new ProtonLink({transport, chains, storage: encrypted})
+ * ```
+ */
+export class EncryptedLinkStorage implements LinkStorage {
+    /** The storage encrypted values are written to. */
+    readonly storage: LinkStorage
+    readonly onKeyLost: 'throw' | 'remove'
+
+    private options: EncryptedLinkStorageOptions
+    private subtle: SubtleCrypto
+    private cryptoKey?: Promise<CryptoKey>
+
+    constructor(storage: LinkStorage, options: EncryptedLinkStorageOptions = {}) {
+        this.storage = storage
+        this.options = options
+        const subtle = options.subtle || (globalThis.crypto && globalThis.crypto.subtle)
+        if (!subtle) {
+            throw new TypeError('WebCrypto is not available, pass options.subtle')
+        }
+        this.subtle = subtle
+        this.onKeyLost = options.onKeyLost || 'throw'
+    }
+
+    async write(key: string, data: string) {
+        const cryptoKey = await this.getKey()
+        const iv = Bytes.random(12)
+        const ciphertext = await this.subtle.encrypt(
+            {name: 'AES-GCM', iv: iv.array, additionalData: Bytes.from(key, 'utf8').array},
+            cryptoKey,
+            Bytes.from(data, 'utf8').array
+        )
+        const sealed = iv.appending(new Uint8Array(ciphertext))
+        await this.storage.write(key, prefix + Base64u.encode(sealed.array))
+    }
+
+    /**
+     * Read and decrypt key from storage.
+     * @throws LinkError with code `E_STORAGE_KEY` if the value can't be decrypted, see [[EncryptedLinkStorageOptions.onKeyLost]].
+     */
+    async read(key: string) {
+        const value = await this.storage.read(key)
+        if (value === null || value === undefined) {
+            return null
+        }
+        if (!value.startsWith(prefix)) {
+            // written before encryption was enabled, encrypt in place
+            await this.write(key, value)
+            return value
+        }
+        const cryptoKey = await this.getKey()
+        let data: ArrayBuffer
+        try {
+            const sealed = Base64u.decode(value.slice(prefix.length))
+            data = await this.subtle.decrypt(
+                {
+                    name: 'AES-GCM',
+                    iv: sealed.subarray(0, 12),
+                    additionalData: Bytes.from(key, 'utf8').array,
+                },
+                cryptoKey,
+                sealed.subarray(12)
+            )
+        } catch {
+            if (this.onKeyLost === 'remove') {
+                logWarn(`Unable to decrypt ${key}, removing it`)
+                await this.storage.remove(key)
+                return null
+            }
+            throw new LinkError(
+                `Unable to decrypt ${key}, the storage key was lost or changed`,
+                'E_STORAGE_KEY'
+            )
+        }
+        return Bytes.from(new Uint8Array(data)).toString('utf8')
+    }
+
+    remove(key: string) {
+        return this.storage.remove(key)
+    }
+
+    /** Resolve the configured key, loading or generating it once. */
+    private getKey() {
+        if (!this.cryptoKey) {
+            this.cryptoKey = this.loadKey().catch((error) => {
+                this.cryptoKey = undefined
+                throw error
+            })
+        }
+        return this.cryptoKey
+    }
+
+    private async loadKey(): Promise<CryptoKey> {
+        const {key} = this.options
+        if (key && (key as CryptoKey).usages !== undefined) {
+            return key as CryptoKey
+        }
+        if (key) {
+            return this.subtle.importKey(
+                'raw',
+                Bytes.from(key as BytesType).array,
+                {name: 'AES-GCM'},
+                false,
+                ['encrypt', 'decrypt']
+            )
+        }
+        return persistedKey(
+            this.subtle,
+            this.options.keyDatabase || 'proton-link',
+            this.options.keyName || 'storage'
+        )
+    }
+}
+
+/**
+ * Load a non-extractable key from IndexedDB, generating it on first use.
+ * @internal
+ */
+async function persistedKey(subtle: SubtleCrypto, database: string, name: string) {
+    if (typeof indexedDB === 'undefined') {
+        throw new TypeError('IndexedDB is not available, pass options.key')
+    }
+    const open = indexedDB.open(database, 1)
+    open.onupgradeneeded = () => open.result.createObjectStore('keys')
+    const db = await idbRequest(open)
+    const load = () =>
+        idbRequest<CryptoKey | undefined>(db.transaction('keys').objectStore('keys').get(name))
+    try {
+        const existing = await load()
+        if (existing) {
+            return existing
+        }
+        const key = await subtle.generateKey({name: 'AES-GCM', length: 256}, false, [
+            'encrypt',
+            'decrypt',
+        ])
+        try {
+            await idbRequest(db.transaction('keys', 'readwrite').objectStore('keys').add(key, name))
+            return key
+        } catch {
+            // another tab generated the key first
+            const winner = await load()
+            if (!winner) {
+                throw new Error('Unable to persist storage key')
+            }
+            return winner
+        }
+    } finally {
+        db.close()
+    }
+}
+
+/** @internal */
+function idbRequest<T>(request: IDBRequest<T>) {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
@@ -0,0 +1,131 @@
+import type {Checksum256, PermissionLevel} from '@greymass/eosio'
+import type {CallbackPayload, ResolvedSigningRequest, SigningRequest} from '@proton/signing-request'
+
+import type {LinkChain} from './link'
+import type {LinkSession} from './link-session'
+import {logWarn} from './utils'
+
+/** Data passed to all request lifecycle events. */
+export interface LinkRequestEvent {
+    /** The signing request. */
+    request: SigningRequest
+    /** Chain of the request, undefined for multi-chain requests that are not signed yet. */
+    chain?: LinkChain
+    /** Session the request was sent with, undefined if sent with the link transport. */
+    session?: LinkSession
+    /** Time of the event, in milliseconds since the epoch. */
+    time: number
+    /** Milliseconds since the request was created. */
+    elapsed: number
+}
+
+/** Events emitted by [[Link]] and forwarded by [[LinkSession]], with their data. */
+export interface LinkEvents {
+    /** A request was created and is about to be sent. */
+    'request:created': LinkRequestEvent
+    /**
+     * A request was handed to the transport, or pushed over a session channel.
+     * `acknowledged` is true when the session channel confirmed the wallet received it.
+     */
+    'request:delivered': LinkRequestEvent & {acknowledged: boolean}
+    /** The transport recovered from an error that would otherwise have failed the request. */
+    'request:recovered': LinkRequestEvent & {error: Error}
+    /** The wallet signed the request. */
+    'request:signed': LinkRequestEvent & {
+        chain: LinkChain
+        signer: PermissionLevel
+        payload: CallbackPayload
+        /** The request resolved from the payload, with the signed transaction. */
+        resolved: ResolvedSigningRequest
+    }
+    /** The signed transaction was broadcast. */
+    'tx:broadcast': LinkRequestEvent & {
+        chain: LinkChain
+        transactionId: Checksum256
+        processed?: {[key: string]: any}
+    }
+    /** A broadcast transaction became irreversible, see [[TransactOptions.waitFor]]. */
+    'tx:irreversible': LinkRequestEvent & {
+        chain: LinkChain
+        transactionId: Checksum256
+        blockNum: number
+    }
+    /** The request failed, was cancelled or rejected. */
+    'request:failed': LinkRequestEvent & {error: Error}
+    /** A stored session expired and was removed, see [[LinkOptions.sessionPolicy]]. */
+    'session:expired': LinkSessionExpiredEvent
+}
+
+/** Data passed to the `session:expired` event. */
+export interface LinkSessionExpiredEvent {
+    /** The removed session. */
+    session: LinkSession
+    /**
+     * Why the session was removed.
+     *  - `expired`: It is older than [[LinkSessionPolicy.maxAge]].
+     *  - `idle`: It was not used within [[LinkSessionPolicy.idleTimeout]].
+     *  - `undeliverable`: Too many requests in a row failed to reach the wallet,
+     *    see [[LinkSessionPolicy.maxDeliveryFailures]].
+     *  - `revoked`: The session key is no longer in the account permission.
+     */
+    reason: 'expired' | 'idle' | 'undeliverable' | 'revoked'
+    /** Time of the event, in milliseconds since the epoch. */
+    time: number
+}
+
+/** Name of a [[LinkEvents]] event. */
+export type LinkEventName = keyof LinkEvents
+
+/** Listener for a [[LinkEvents]] event. */
+export type LinkEventListener<E extends LinkEventName> = (event: LinkEvents[E]) => void
+
+/**
+ * Minimal typed event emitter, listeners throwing are logged and do not affect the request.
+ * @internal
+ */
+export class LinkEventEmitter {
+    private listeners = new Map<LinkEventName, Set<(_data: never) => void>>()
+
+    /** Add a listener, returns a function that removes it. */
+    on<E extends LinkEventName>(event: E, listener: LinkEventListener<E>) {
+        let listeners = this.listeners.get(event)
+        if (!listeners) {
+            listeners = new Set()
+            this.listeners.set(event, listeners)
+        }
+        listeners.add(listener)
+        return () => this.off(event, listener)
+    }
+
+    /** Add a listener that is removed after the first event, returns a function that removes it. */
+    once<E extends LinkEventName>(event: E, listener: LinkEventListener<E>) {
+        const off = this.on(event, (data) => {
+            off()
+            listener(data)
+        })
+        return off
+    }
+
+    /** Remove a listener. */
+    off<E extends LinkEventName>(event: E, listener: LinkEventListener<E>) {
+        const listeners = this.listeners.get(event)
+        if (listeners) {
+            listeners.delete(listener)
+        }
+    }
+
+    emit<E extends LinkEventName>(event: E, data: LinkEvents[E]) {
+        const listeners = this.listeners.get(event)
+        if (!listeners) {
+            return
+        }
+        // copied so listeners added while emitting are not called for this event
+        for (const listener of Array.from(listeners) as LinkEventListener<E>[]) {
+            try {
+                listener(data)
+            } catch (error) {
+                logWarn(`Unexpected error in ${event} listener`, error)
+            }
+        }
+    }
+}
@@ -0,0 +1,119 @@
+import type {LinkStorage} from './link-storage'
+import {LinkRequestQueue} from './link-queue'
+
+/**
+ * Status of a transaction in the history.
+ *  - `signed`: The wallet signed the transaction, it was not broadcast by link.
+ *  - `broadcast`: The node accepted the transaction.
+ *  - `irreversible`: The transaction is irreversible, see [[TransactOptions.waitFor]].
+ *  - `failed`: Broadcasting or waiting for the transaction failed, see [[LinkHistoryEntry.error]].
+ */
+export type LinkHistoryStatus = 'signed' | 'broadcast' | 'irreversible' | 'failed'
+
+/** A transaction signed with a session, see [[LinkSession.getHistory]]. */
+export interface LinkHistoryEntry {
+    /** The transaction id. */
+    id: string
+    /** Id of the chain the transaction is for. */
+    chainId: string
+    /** The permission that signed the transaction. */
+    signer: string
+    /** Summary of the transaction actions. */
+    actions: {account: string; name: string; text: string}[]
+    status: LinkHistoryStatus
+    /** Time the wallet signed the transaction, in milliseconds since the epoch. */
+    created: number
+    /** Time of the last status change, in milliseconds since the epoch. */
+    updated: number
+    /** Block the transaction was included in, once irreversible. */
+    blockNum?: number
+    /** Why the transaction failed. */
+    error?: {code?: string; message: string}
+}
+
+/**
+ * Options for the transaction history, see [[LinkOptions.history]].
+ */
+export interface LinkHistoryOptions {
+    /**
+     * Number of transactions kept per session, the oldest are removed first.
+     * @default 100
+     */
+    maxEntries?: number
+    /**
+     * Milliseconds transactions are kept.
+     * @default 30 days
+     */
+    maxAge?: number
+}
+
+/** Filter for [[LinkSession.getHistory]]. */
+export interface LinkHistoryQuery {
+    /** Return at most this many transactions, newest first. */
+    limit?: number
+    /** Only return transactions with this status. */
+    status?: LinkHistoryStatus | LinkHistoryStatus[]
+}
+
+/**
+ * Transaction history persisted to a [[LinkStorage]], every session has its own list.
+ * @internal
+ */
+export class LinkHistoryStore {
+    readonly storage: LinkStorage
+    readonly maxEntries: number
+    readonly maxAge: number
+
+    /** Updates of a list are written one at a time, they read and write the whole list. */
+    private writes = new LinkRequestQueue()
+
+    constructor(storage: LinkStorage, options: LinkHistoryOptions = {}) {
+        this.storage = storage
+        this.maxEntries = options.maxEntries || 100
+        this.maxAge = options.maxAge || 30 * 24 * 60 * 60 * 1000
+    }
+
+    /** Entries of the list stored under key, newest first. */
+    async list(key: string, query: LinkHistoryQuery = {}) {
+        let entries = this.prune(await this.read(key))
+        if (query.status) {
+            const status = Array.isArray(query.status) ? query.status : [query.status]
+            entries = entries.filter((entry) => status.includes(entry.status))
+        }
+        return query.limit !== undefined ? entries.slice(0, query.limit) : entries
+    }
+
+    /** Add the entry or update the existing entry with the same id. */
+    update(key: string, entry: Pick<LinkHistoryEntry, 'id'> & Partial<LinkHistoryEntry>) {
+        return this.writes.run(key, async () => {
+            const entries = await this.read(key)
+            const idx = entries.findIndex((item) => item.id === entry.id)
+            if (idx !== -1) {
+                entries[idx] = {...entries[idx], ...entry}
+            } else if (entry.created) {
+                entries.unshift(entry as LinkHistoryEntry)
+            } else {
+                // status change of a transaction that was pruned
+                return
+            }
+            await this.storage.write(key, JSON.stringify(this.prune(entries)))
+        })
+    }
+
+    remove(key: string) {
+        return this.writes.run(key, () => this.storage.remove(key))
+    }
+
+    private async read(key: string): Promise<LinkHistoryEntry[]> {
+        try {
+            return JSON.parse((await this.storage.read(key)) || '[]')
+        } catch {
+            return []
+        }
+    }
+
+    private prune(entries: LinkHistoryEntry[]) {
+        const since = Date.now() - this.maxAge
+        return entries.filter((entry) => entry.created >= since).slice(0, this.maxEntries)
+    }
+}
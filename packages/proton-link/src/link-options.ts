@@ -1,8 +1,15 @@
-import type {APIClient} from '@greymass/eosio'
-import type {ChainIdType, SigningRequestEncodingOptions} from '@proton/signing-request'
+import type {ABIDef, APIClient, NameType, PrivateKeyType} from '@greymass/eosio'
+import type {
+    ChainIdType,
+    SignatureProvider,
+    SigningRequestEncodingOptions,
+} from '@proton/signing-request'
+import type {AbiCache} from './link-abi-cache'
 import type {LinkStorage} from './link-storage'
 import type {LinkTransport} from './link-transport'
 import type {LinkCallbackService} from './link-callback'
+import type {Cosigner} from './link-cosigner'
+import type {LinkHistoryOptions} from './link-history'
 import {JsonRpc} from '@proton/js'
 
 /**
@@ -15,8 +22,23 @@ export interface LinkChainConfig {
     chainId: ChainIdType
     /**
      * URL to EOSIO node to communicate with (or a @greymass/eosio APIClient instance).
+     * Multiple URLs use a [[FailoverJsonRpc]] client that fails over between them.
      */
-    nodeUrl: string | JsonRpc
+    nodeUrl: string | string[] | JsonRpc
+    /**
+     * ABI cache to use for this chain, overrides [[LinkOptions.abiCache]].
+     */
+    abiCache?: AbiCache | null
+    /**
+     * ABIs to preload keyed by account name, e.g. bundled with the app.
+     * Preloaded ABIs are never fetched from the node, allowing requests to be created offline.
+     */
+    abis?: {[account: string]: ABIDef}
+    /**
+     * Scheme of requests for this chain, overrides [[LinkOptions.scheme]].
+     * E.g. `proton-dev` for a testnet configured together with mainnet.
+     */
+    scheme?: SigningRequestEncodingOptions['scheme']
 }
 
 /**
@@ -53,11 +75,11 @@ export interface LinkOptions {
      * URL to EOSIO node to communicate with or a `@greymass/eosio` APIClient instance.
      * @deprecated Use [[chains]] instead.
      */
-    client?: string | JsonRpc
+    client?: string | string[] | JsonRpc
     /**
      * URL to callback forwarder service or an object implementing [[LinkCallbackService]].
-     * See [buoy-nodejs](https://github.com/greymass/buoy-nodejs) and (buoy-golang)[https://github.com/greymass/buoy-golang]
-     * for reference implementations.
+     * See `@proton/buoy` in this repository, [buoy-nodejs](https://github.com/greymass/buoy-nodejs) and
+     * (buoy-golang)[https://github.com/greymass/buoy-golang] for reference implementations.
      * @default `https://cb.anchor.link`
      */
     service?: string | LinkCallbackService
@@ -67,12 +89,49 @@ export interface LinkOptions {
      * @default Use transport storage.
      */
     storage?: LinkStorage | null
+    /**
+     * Optional cache used to persist ABIs between page loads. If not set will cache ABIs
+     * in the link storage if available, explicitly set this to `null` to only cache in memory.
+     * @default Use link storage.
+     */
+    abiCache?: AbiCache | null
+    /**
+     * How long cached ABIs are used before checking with the node if they changed, in milliseconds.
+     * @default 24 hours
+     */
+    abiCacheTtl?: number
     /**
      * Whether to verify identity proofs submitted by the signer, if this is disabled the
      * [[Link.login | login]] and [[Link.identify | identify]] methods will not return an account object.
      * @default `false`
      */
     verifyProofs?: boolean
+    /**
+     * Sign all requests created by the link, lets wallets verify and show which account the
+     * request originates from. Either a signature provider or the account and private key
+     * to sign with, the key should be in the accounts authority.
+     * @default Requests are not signed.
+     */
+    requestSigner?: SignatureProvider | {signer: NameType; key: PrivateKeyType}
+    /**
+     * Rules for expiring stored sessions, expired sessions are removed and reported with
+     * the `session:expired` event.
+     * @default Sessions never expire.
+     */
+    sessionPolicy?: LinkSessionPolicy
+    /**
+     * Cosigner that pays the resources of transactions, see [[LocalCosigner]] and
+     * [[TransactOptions.cosign]]. The cosigner adds its action before the wallet is prompted,
+     * the user signs the transaction as is.
+     * @default Users pay for their transactions.
+     */
+    cosigner?: Cosigner
+    /**
+     * Keep a history of the transactions signed with each session in the link storage,
+     * see [[LinkSession.getHistory]]. Pass options to change how long transactions are kept.
+     * @default No history is kept.
+     */
+    history?: boolean | LinkHistoryOptions
     /**
      * Whether to encode the chain ids with the identity request that establishes a session.
      * Only applicable when using multiple chain configurations, can be set to false to
@@ -90,6 +149,29 @@ export interface LinkOptions {
     walletType?: string
 }
 
+/**
+ * Rules for expiring stored sessions, see [[LinkOptions.sessionPolicy]].
+ */
+export interface LinkSessionPolicy {
+    /** Milliseconds after login after which a session expires when restored. */
+    maxAge?: number
+    /**
+     * Milliseconds a session may go unused before it expires when restored.
+     * Sessions are used when restored and when the wallet signs a request sent with them.
+     */
+    idleTimeout?: number
+    /**
+     * Remove a session after this many requests in a row could not be delivered to the
+     * wallet (`E_DELIVERY`), e.g. because the wallet was uninstalled.
+     */
+    maxDeliveryFailures?: number
+    /**
+     * Check that the session key is still in the account permission before restoring a session,
+     * costs a `get_account` call. Sessions are kept if the node can't be reached.
+     */
+    verifyKey?: boolean
+}
+
 /** @internal */
 export namespace LinkOptions {
     /** @internal */
@@ -97,5 +179,6 @@ export namespace LinkOptions {
         service: 'https://cb.anchor.link',
         verifyProofs: false,
         encodeChainIds: true,
+        abiCacheTtl: 24 * 60 * 60 * 1000,
     }
 }
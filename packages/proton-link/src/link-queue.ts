@@ -0,0 +1,127 @@
+import {CancelError} from './errors'
+
+/** @internal */
+interface QueuedTask {
+    tag: unknown
+    run: () => void
+    cancel: (_reason: Error) => void
+}
+
+/**
+ * Runs tasks one at a time per key, tasks for different keys run concurrently.
+ *
+ * Used by [[Link]] to show one signing request at a time per transport, the promise returned
+ * for every task settles exactly once, either with the task result or when cancelled.
+ * Tasks can be tagged, e.g. with their session, to count and cancel them within a shared key.
+ */
+export class LinkRequestQueue {
+    private running = new Set<unknown>()
+    private queued = new Map<unknown, QueuedTask[]>()
+
+    /**
+     * Run task once all tasks queued before it for the same key have settled, or released the
+     * queue by calling the function passed to them.
+     * @param key Object identifying the queue, e.g. the transport.
+     * @param tag Object identifying the task for [[size]] and [[cancel]], defaults to key.
+     */
+    run<T>(
+        key: unknown,
+        task: (_release: () => void) => Promise<T>,
+        tag: unknown = key
+    ): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            let settled = false
+            const settle = (fn: () => void) => {
+                if (!settled) {
+                    settled = true
+                    fn()
+                }
+            }
+            const item: QueuedTask = {
+                tag,
+                run: () => {
+                    this.running.add(key)
+                    let released = false
+                    const release = () => {
+                        if (!released) {
+                            released = true
+                            this.next(key)
+                        }
+                    }
+                    // start the next task before settling, callers see the queue up to date
+                    Promise.resolve()
+                        .then(() => task(release))
+                        .then(
+                            (result) => {
+                                release()
+                                settle(() => resolve(result))
+                            },
+                            (error) => {
+                                release()
+                                settle(() => reject(error))
+                            }
+                        )
+                },
+                cancel: (reason) => settle(() => reject(reason)),
+            }
+            if (this.running.has(key)) {
+                const items = this.queued.get(key) || []
+                items.push(item)
+                this.queued.set(key, items)
+            } else {
+                item.run()
+            }
+        })
+    }
+
+    /**
+     * Number of tasks waiting for their turn, excluding the running task.
+     * @param tag Count the tasks with this tag only, defaults to all tasks.
+     */
+    size(tag?: unknown) {
+        let rv = 0
+        for (const items of this.queued.values()) {
+            rv += items.filter((item) => tag === undefined || item.tag === tag).length
+        }
+        return rv
+    }
+
+    /** True if a task is running for key. */
+    isBusy(key: unknown) {
+        return this.running.has(key)
+    }
+
+    /**
+     * Reject tasks waiting for their turn with a [[CancelError]], the running task is not affected.
+     * @param tag Cancel the tasks with this tag only, defaults to all tasks.
+     * @returns The number of cancelled tasks.
+     */
+    cancel(tag?: unknown, reason?: string | Error) {
+        const error = reason instanceof Error ? reason : new CancelError(reason)
+        const cancelled: QueuedTask[] = []
+        for (const [key, items] of Array.from(this.queued)) {
+            const remaining = items.filter((item) => tag !== undefined && item.tag !== tag)
+            cancelled.push(...items.filter((item) => !remaining.includes(item)))
+            if (remaining.length > 0) {
+                this.queued.set(key, remaining)
+            } else {
+                this.queued.delete(key)
+            }
+        }
+        cancelled.forEach((item) => item.cancel(error))
+        return cancelled.length
+    }
+
+    private next(key: unknown) {
+        const items = this.queued.get(key)
+        const item = items && items.shift()
+        if (items && items.length === 0) {
+            this.queued.delete(key)
+        }
+        if (item) {
+            item.run()
+        } else {
+            this.running.delete(key)
+        }
+    }
+}
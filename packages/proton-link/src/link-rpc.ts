@@ -0,0 +1,251 @@
+import {JsonRpc, RpcError} from '@proton/js'
+
+import {fetch} from './utils'
+
+/**
+ * Options for the [[FailoverJsonRpc]] client.
+ */
+export interface FailoverJsonRpcOptions {
+    /** Milliseconds before a request to an endpoint is aborted, defaults to 10 seconds. */
+    timeout?: number
+    /**
+     * Number of blocks an endpoint may lag behind the highest head block seen on any endpoint
+     * before it is considered unhealthy, defaults to 60 (30 seconds).
+     */
+    maxHeadLag?: number
+    /**
+     * Consecutive failed requests after which an endpoint is considered unhealthy until it
+     * answers again, defaults to 3.
+     */
+    maxErrors?: number
+    /**
+     * Milliseconds between endpoint health checks, checks are started in the background
+     * by the next request once due. Defaults to 60 seconds, set to 0 to disable.
+     */
+    healthCheckInterval?: number
+}
+
+/**
+ * Health of an endpoint, see [[FailoverJsonRpc.ranking]].
+ */
+export interface RpcEndpointStatus {
+    /** Endpoint url. */
+    url: string
+    /** Whether the endpoint is considered healthy. */
+    healthy: boolean
+    /** Average response time in milliseconds, undefined until the endpoint answered. */
+    latency?: number
+    /** Average error rate, from 0 to 1. */
+    errorRate: number
+    /** Number of requests sent to the endpoint. */
+    requests: number
+    /** Number of failed requests. */
+    errors: number
+    /** Failed requests since the endpoint last answered. */
+    consecutiveErrors: number
+    /** Last head block number reported by the endpoint. */
+    headBlockNum?: number
+    /** Blocks behind the highest head block seen on any endpoint. */
+    headLag?: number
+    /** Message of the last failure. */
+    lastError?: string
+}
+
+/**
+ * Api paths that broadcast transactions, never retried on another endpoint.
+ * @internal
+ */
+const pushPaths = [
+    '/v1/chain/push_transaction',
+    '/v1/chain/push_transactions',
+    '/v1/chain/send_transaction',
+    '/v1/chain/send_transaction2',
+]
+
+/**
+ * Error when an endpoint could not be reached or answered with garbage,
+ * the request can be retried on another endpoint.
+ * @internal
+ */
+class EndpointError extends Error {
+    public cause: any
+    constructor(url: string, cause: any) {
+        super(`Unable to reach ${url} (${cause && cause.message ? cause.message : cause})`)
+        this.cause = cause
+    }
+}
+
+/**
+ * JsonRpc client using multiple endpoints, requests go to the healthiest endpoint.
+ *
+ * Endpoints are ranked by response time and error rate, endpoints that fail repeatedly or
+ * lag behind the other endpoints' head block are only used when no healthy endpoint is left.
+ * Reads are retried on the next endpoint when an endpoint can't be reached, transactions
+ * are only pushed once and fail instead so they are never broadcast twice.
+ *
+ * ```ts
+ * const client = new FailoverJsonRpc(['https://proton.greymass.com', 'https://api.protonnz.com'])
+ * const link = new ProtonLink({chains: [{chainId, nodeUrl: client}], transport})
+ * console.log(client.ranking)
+ * ```
+ */
+export class FailoverJsonRpc extends JsonRpc {
+    readonly maxHeadLag: number
+    readonly maxErrors: number
+    readonly healthCheckInterval: number
+
+    private states: RpcEndpointStatus[]
+    private lastHealthCheck = 0
+
+    constructor(endpoints: string | string[], options: FailoverJsonRpcOptions = {}) {
+        super(endpoints, {timeout: options.timeout || 10 * 1000})
+        const urls = Array.isArray(endpoints) ? endpoints : [endpoints]
+        if (urls.length === 0) {
+            throw new TypeError('At least one endpoint is required')
+        }
+        this.maxHeadLag = options.maxHeadLag !== undefined ? options.maxHeadLag : 60
+        this.maxErrors = options.maxErrors || 3
+        this.healthCheckInterval =
+            options.healthCheckInterval !== undefined ? options.healthCheckInterval : 60 * 1000
+        this.states = urls.map((url) => ({
+            url: url.replace(/\/$/, ''),
+            healthy: true,
+            errorRate: 0,
+            requests: 0,
+            errors: 0,
+            consecutiveErrors: 0,
+        }))
+    }
+
+    /**
+     * Endpoints in the order they are used, healthy endpoints with the best response
+     * times and error rates first. Endpoints that never answered keep their configured order.
+     */
+    get ranking(): RpcEndpointStatus[] {
+        const score = (state: RpcEndpointStatus) =>
+            state.latency !== undefined ? state.latency * (1 + 10 * state.errorRate) : Infinity
+        return this.states
+            .map((state, index) => ({state, index}))
+            .sort(
+                (a, b) =>
+                    Number(b.state.healthy) - Number(a.state.healthy) ||
+                    score(a.state) - score(b.state) ||
+                    a.state.errorRate - b.state.errorRate ||
+                    a.index - b.index
+            )
+            .map(({state}) => ({...state}))
+    }
+
+    /** Probe all endpoints with `get_info`, updates and returns the [[ranking]]. */
+    async checkHealth() {
+        this.lastHealthCheck = Date.now()
+        await Promise.all(
+            this.states.map((state) =>
+                this.request(state, '/v1/chain/get_info', {}).catch(() => {
+                    // recorded on the endpoint
+                })
+            )
+        )
+        return this.ranking
+    }
+
+    /**
+     * Post `body` to `path` on the best endpoint, reads are retried on the next endpoint if
+     * it can't be reached. Throws `RpcError` with the node response on api errors.
+     */
+    async fetch<R = any>(path: string, body: any): Promise<R> {
+        if (
+            this.healthCheckInterval > 0 &&
+            Date.now() - this.lastHealthCheck > this.healthCheckInterval
+        ) {
+            this.checkHealth()
+        }
+        const ranking = this.ranking
+        const candidates = pushPaths.includes(path) ? ranking.slice(0, 1) : ranking
+        let lastError: any
+        for (const {url} of candidates) {
+            const state = this.states.find((s) => s.url === url)!
+            this.currentEndpoint = url
+            try {
+                return await this.request(state, path, body)
+            } catch (error) {
+                if (!(error instanceof EndpointError)) {
+                    throw error
+                }
+                lastError = error
+            }
+        }
+        const error: any = new RpcError(lastError.cause)
+        error.isFetchError = true
+        throw error
+    }
+
+    /** Send request to endpoint and record its health. */
+    private async request(state: RpcEndpointStatus, path: string, body: any) {
+        const start = Date.now()
+        const controller = new AbortController()
+        const timer = setTimeout(() => controller.abort(), this.timeout)
+        state.requests++
+        let response: Response
+        let json: any
+        try {
+            response = await fetch(state.url + path, {
+                method: 'POST',
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            })
+            json = await response.json().catch(() => undefined)
+        } catch (error) {
+            this.recordFailure(state, error)
+            throw new EndpointError(state.url, error)
+        } finally {
+            clearTimeout(timer)
+        }
+        const apiError =
+            json &&
+            (json.error ||
+                (json.processed && json.processed.except) ||
+                (json.result && json.result.except))
+        if (!json || (!response.ok && !apiError)) {
+            const error = new Error(
+                response.ok ? 'Invalid response body' : `Status ${response.status}`
+            )
+            this.recordFailure(state, error)
+            throw new EndpointError(state.url, error)
+        }
+        // the node answered, api errors are not the endpoints fault
+        this.recordSuccess(state, Date.now() - start, json)
+        if (apiError || json.code === 404) {
+            throw new RpcError(json)
+        }
+        return json
+    }
+
+    private recordSuccess(state: RpcEndpointStatus, latency: number, json: any) {
+        state.latency = state.latency !== undefined ? state.latency * 0.8 + latency * 0.2 : latency
+        state.errorRate *= 0.8
+        state.consecutiveErrors = 0
+        if (json && typeof json.head_block_num === 'number') {
+            state.headBlockNum = json.head_block_num
+        }
+        this.updateHealth()
+    }
+
+    private recordFailure(state: RpcEndpointStatus, error: any) {
+        state.errors++
+        state.consecutiveErrors++
+        state.errorRate = state.errorRate * 0.8 + 0.2
+        state.lastError = error && error.message ? error.message : String(error)
+        this.updateHealth()
+    }
+
+    private updateHealth() {
+        const head = Math.max(0, ...this.states.map((s) => s.headBlockNum || 0))
+        for (const state of this.states) {
+            state.headLag = state.headBlockNum !== undefined ? head - state.headBlockNum : undefined
+            state.healthy =
+                state.consecutiveErrors < this.maxErrors &&
+                (state.headLag === undefined || state.headLag <= this.maxHeadLag)
+        }
+    }
+}
@@ -10,10 +10,12 @@ import {
     Serializer,
 } from '@greymass/eosio'
 
-import {ChainId, ChainIdType, SigningRequest} from '@proton/signing-request'
+import {ChainId, ChainIdType, SigningRequest, SigningRequestBatch} from '@proton/signing-request'
 
 import {SessionError} from './errors'
 import {Link, TransactArgs, TransactOptions, TransactResult} from './link'
+import {LinkEventListener, LinkEventName} from './link-events'
+import {LinkHistoryQuery} from './link-history'
 import {LinkTransport} from './link-transport'
 import {LinkCreate, LinkInfo, SealedMessage} from './link-types'
 import {fetch, logWarn, sealMessage, sessionMetadata} from './utils'
@@ -45,8 +47,40 @@ export abstract class LinkSession {
      * Transact using this session. See [[Link.transact]].
      */
     abstract transact(args: TransactArgs, options?: TransactOptions): Promise<TransactResult>
+    /**
+     * Transact multiple transactions in one request using this session. See [[Link.transactBatch]].
+     */
+    abstract transactBatch(
+        args: TransactArgs[],
+        options?: TransactOptions
+    ): Promise<TransactResult[]>
     /** Returns a JSON-encodable object that can be used recreate the session. */
     abstract serialize(): SerializedLinkSession
+    /** Number of requests waiting for the request in progress, see [[Link.queueLength]]. */
+    get queueLength() {
+        return this.link.queueLength(this)
+    }
+    /**
+     * Cancel requests of this session waiting for their turn, see [[Link.cancelQueued]].
+     * @returns The number of cancelled requests.
+     */
+    cancelQueued(reason?: string | Error) {
+        return this.link.cancelQueued(this, reason)
+    }
+    /**
+     * Transactions signed with this session, newest first. See [[Link.getHistory]].
+     *
+     * ```ts
+     * const failed = await session.getHistory({status: 'failed', limit: 10})
+     * ```
+     */
+    getHistory(query?: LinkHistoryQuery) {
+        return this.link.getHistory(this, query)
+    }
+    /** Remove the transaction history of this session, see [[Link.clearHistory]]. */
+    clearHistory() {
+        return this.link.clearHistory(this)
+    }
     /**
      * Convenience, remove this session from associated [[Link]] storage if set.
      * Equivalent to:
@@ -59,6 +93,25 @@ export abstract class LinkSession {
             await this.link.removeSession(this.identifier, this.auth, this.chainId)
         }
     }
+    /**
+     * Subscribe to lifecycle events of requests sent with this session, see [[Link.on]].
+     * Returns a function that removes the listener.
+     */
+    on<E extends LinkEventName>(event: E, listener: LinkEventListener<E>) {
+        return this.link.on(event, (data) => {
+            if (data.session === this) {
+                listener(data)
+            }
+        })
+    }
+    /** Subscribe to the next lifecycle event of a request sent with this session. */
+    once<E extends LinkEventName>(event: E, listener: LinkEventListener<E>) {
+        const off = this.on(event, (data) => {
+            off()
+            listener(data)
+        })
+        return off
+    }
     /** API client for the chain this session is valid on. */
     get client() {
         return this.link.getChain(this.chainId).client
@@ -123,7 +176,7 @@ export class LinkChannelSession extends LinkSession implements LinkTransport {
     readonly publicKey: PublicKey
     serialize: () => SerializedLinkSession
     private timeout = 2 * 60 * 1000 // ms
-    private encrypt: (request: SigningRequest) => SealedMessage
+    private encrypt: (request: SigningRequest | SigningRequestBatch) => SealedMessage
     private channelKey: PublicKey
     private channelUrl: string
     private channelName: string
@@ -174,13 +227,38 @@ export class LinkChannelSession extends LinkSession implements LinkTransport {
         }
     }
 
+    onBatchSuccess(batch, results) {
+        if (this.link.transport.onBatchSuccess) {
+            this.link.transport.onBatchSuccess(batch, results)
+        }
+    }
+
+    onBatchFailure(batch, error) {
+        if (this.link.transport.onBatchFailure) {
+            this.link.transport.onBatchFailure(batch, error)
+        }
+    }
+
     onRequest(request: SigningRequest, cancel) {
-        const info = LinkInfo.from({
-            expiration: new Date(Date.now() + this.timeout),
-        })
         if (this.link.transport.onSessionRequest) {
             this.link.transport.onSessionRequest(this, request, cancel)
         }
+        this.deliver(request, [request], cancel)
+    }
+
+    onBatchRequest(batch: SigningRequestBatch, cancel) {
+        this.deliver(batch, batch.requests, cancel)
+    }
+
+    /** Push request or batch over the session channel. */
+    private deliver(
+        message: SigningRequest | SigningRequestBatch,
+        requests: SigningRequest[],
+        cancel: (reason: string | Error) => void
+    ) {
+        const info = LinkInfo.from({
+            expiration: new Date(Date.now() + this.timeout),
+        })
         const controller = new AbortController()
         let reachedTimeout = false
 
@@ -189,9 +267,11 @@ export class LinkChannelSession extends LinkSession implements LinkTransport {
             reachedTimeout = true
             controller.abort()
         }, this.timeout)
-        request.setInfoKey('link', info)
+        for (const request of requests) {
+            request.setInfoKey('link', info)
+        }
         // let payloadSent = false
-        const payload = Serializer.encode({object: this.encrypt(request)})
+        const payload = Serializer.encode({object: this.encrypt(message)})
         // if (this.link.transport.sendSessionPayload) {
         //     try {
         //         payloadSent = this.link.transport.sendSessionPayload(payload, this)
@@ -212,15 +292,20 @@ export class LinkChannelSession extends LinkSession implements LinkTransport {
             signal: controller.signal,
         })
             .then((response) => {
-                if (response.status !== 0 && Math.floor(response.status / 100) !== 2) {
+                if (response.status === 202) {
+                    // buffered by the relay, the wallet was not listening within the wait time
+                    // eslint-disable-next-line no-console
+                    console.warn('Missing delivery ack from session channel')
+                } else if (response.status !== 0 && Math.floor(response.status / 100) !== 2) {
                     clearTimeout(timer)
-                    if (response.status === 202) {
-                        // eslint-disable-next-line no-console
-                        console.warn('Missing delivery ack from session channel')
-                    }
                     cancel(new SessionError('Unable to push message', 'E_DELIVERY', this))
-                } else {
-                    // request delivered
+                    return
+                }
+                // request delivered, or buffered until the wallet connects
+                for (const request of requests) {
+                    this.link.emitRequestEvent('request:delivered', request, {
+                        acknowledged: response.status === 200,
+                    })
                 }
             })
             .catch((error) => {
@@ -294,6 +379,10 @@ export class LinkChannelSession extends LinkSession implements LinkTransport {
         }
         return res
     }
+
+    transactBatch(args: TransactArgs[], options?: TransactOptions) {
+        return this.link.transactBatch(args, {...options, chain: this.chainId}, this)
+    }
 }
 
 /** @internal */
@@ -353,6 +442,26 @@ export class LinkFallbackSession extends LinkSession implements LinkTransport {
         }
     }
 
+    onBatchSuccess(batch, results) {
+        if (this.link.transport.onBatchSuccess) {
+            this.link.transport.onBatchSuccess(batch, results)
+        }
+    }
+
+    onBatchFailure(batch, error) {
+        if (this.link.transport.onBatchFailure) {
+            this.link.transport.onBatchFailure(batch, error)
+        }
+    }
+
+    onBatchRequest(batch, cancel) {
+        if (this.link.transport.onBatchRequest) {
+            this.link.transport.onBatchRequest(batch, cancel)
+        } else {
+            cancel(new Error('Transport does not support batch requests'))
+        }
+    }
+
     prepare(request) {
         if (this.link.transport.prepare) {
             return this.link.transport.prepare(request, this)
@@ -373,4 +482,8 @@ export class LinkFallbackSession extends LinkSession implements LinkTransport {
     transact(args: TransactArgs, options?: TransactOptions) {
         return this.link.transact(args, {...options, chain: this.chainId}, this)
     }
+
+    transactBatch(args: TransactArgs[], options?: TransactOptions) {
+        return this.link.transactBatch(args, {...options, chain: this.chainId}, this)
+    }
 }
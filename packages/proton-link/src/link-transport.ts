@@ -1,5 +1,5 @@
 import type {Bytes} from '@greymass/eosio'
-import type {SigningRequest} from '@proton/signing-request'
+import type {SigningRequest, SigningRequestBatch} from '@proton/signing-request'
 
 import type {TransactResult} from './link'
 import type {LinkSession} from './link-session'
@@ -22,6 +22,16 @@ export interface LinkTransport {
     onSuccess?(request: SigningRequest, result: TransactResult): void
     /** Called if the request failed. */
     onFailure?(request: SigningRequest, error: Error): void
+    /**
+     * Present a batch of signing requests to the user, required for [[Link.transactBatch]].
+     * @param batch The signing request batch.
+     * @param cancel Can be called to abort the batch.
+     */
+    onBatchRequest?(batch: SigningRequestBatch, cancel: (reason: string | Error) => void): void
+    /** Called if the batch request was successful. */
+    onBatchSuccess?(batch: SigningRequestBatch, results: TransactResult[]): void
+    /** Called if the batch request failed. */
+    onBatchFailure?(batch: SigningRequestBatch, error: Error): void
     /**
      * Called when a session request is initiated.
      * @param session Session where the request originated.
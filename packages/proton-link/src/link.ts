@@ -1,6 +1,8 @@
 import zlib from 'pako'
 
 import {
+    ABI,
+    ABIDecoder,
     ABIDef,
     ABISerializable,
     AnyAction,
@@ -8,20 +10,24 @@ import {
     API,
     APIClient,
     Bytes,
+    Checksum256,
     Name,
     NameType,
     PackedTransaction,
     PermissionLevel,
     PermissionLevelType,
     PrivateKey,
+    PrivateKeyType,
     Serializer,
     Signature,
     SignedTransaction,
+    TimePointSec,
     Transaction,
 } from '@greymass/eosio'
 
 import {
     AbiProvider,
+    Base64u,
     CallbackPayload,
     ChainId,
     ChainIdType,
@@ -29,20 +35,50 @@ import {
     PlaceholderName,
     PlaceholderPermission,
     ResolvedSigningRequest,
+    ResolvedSigningRequestBatch,
     ResolvedTransaction,
+    SignatureProvider,
+    SignInChallenge,
+    SignInChallengeType,
     SigningRequest,
+    SigningRequestBatch,
     SigningRequestCreateArguments,
     SigningRequestEncodingOptions,
+    summarizeActions,
 } from '@proton/signing-request'
 
-import {CancelError, IdentityError} from './errors'
-import {LinkChainConfig, LinkOptions} from './link-options'
+import {
+    CancelError,
+    ChainError,
+    FinalityError,
+    IdentityError,
+    isLinkError,
+    LinkError,
+    nodeErrorMessages,
+    parseAssertion,
+    ReplayError,
+    SimulationError,
+} from './errors'
+import {AbiCache, AbiCacheEntry, LinkStorageAbiCache} from './link-abi-cache'
+import {
+    LinkEventEmitter,
+    LinkEventListener,
+    LinkEventName,
+    LinkEvents,
+    LinkRequestEvent,
+    LinkSessionExpiredEvent,
+} from './link-events'
+import {LinkChainConfig, LinkOptions, LinkSessionPolicy} from './link-options'
+import {FailoverJsonRpc} from './link-rpc'
 import {LinkChannelSession, LinkFallbackSession, LinkSession} from './link-session'
 import {LinkStorage} from './link-storage'
 import {LinkTransport} from './link-transport'
+import {LinkRequestQueue} from './link-queue'
+import type {Cosigner} from './link-cosigner'
+import {LinkHistoryEntry, LinkHistoryQuery, LinkHistoryStore} from './link-history'
 import {LinkCreate} from './link-types'
 import {BuoyCallbackService, LinkCallback, LinkCallbackService} from './link-callback'
-import {sessionMetadata} from './utils'
+import {logWarn, sessionMetadata, sleep, toError} from './utils'
 import {JsonRpc, RpcInterfaces} from '@proton/js'
 
 /**
@@ -78,6 +114,39 @@ export interface TransactOptions {
      * Defaults to false if [[broadcast]] is true or unspecified; otherwise true.
      */
     noModify?: boolean
+    /**
+     * Dry-run the transaction on the node using `compute_transaction` before the wallet
+     * is prompted, throws a [[SimulationError]] if it would fail. Set to a permission level
+     * to simulate as that signer, `true` simulates session requests as the session auth and
+     * throws a `TypeError` for requests made without a session.
+     * If the simulation can not be run, e.g. the node does not support it, the request
+     * is sent without it.
+     *
+     * Defaults to false.
+     */
+    simulate?: boolean | PermissionLevelType
+    /**
+     * Wait for the broadcast transaction to be included in a block (`executed`) or to become
+     * irreversible (`irreversible`) before resolving, sets [[TransactResult.blockNum]] and
+     * [[TransactResult.irreversible]]. Throws a [[FinalityError]] if the transaction expires,
+     * is dropped or is not confirmed within [[waitTimeout]]. Ignored when not broadcasting.
+     *
+     * Uses `get_transaction_status` and falls back to the history api when unavailable.
+     */
+    waitFor?: 'executed' | 'irreversible'
+    /**
+     * Milliseconds to wait for the transaction to reach [[waitFor]].
+     * Defaults to 5 minutes.
+     */
+    waitTimeout?: number
+    /**
+     * Have the [[LinkOptions.cosigner]] pay for the transaction resources. The transaction is
+     * resolved for the signer before the wallet is prompted, set to a permission level to
+     * cosign for that signer when transacting without a session.
+     *
+     * Defaults to true when transacting with a session and a cosigner is configured.
+     */
+    cosign?: boolean | PermissionLevelType
 }
 
 /**
@@ -100,6 +169,10 @@ export interface TransactResult {
     resolvedTransaction: ResolvedTransaction
     /** Push transaction response from api node, only present if transaction was broadcast. */
     processed?: {[key: string]: any}
+    /** Block the transaction was included in, only present if [[TransactOptions.waitFor]] was set. */
+    blockNum?: number
+    /** Whether the block is irreversible, only present if [[TransactOptions.waitFor]] was set. */
+    irreversible?: boolean
 }
 
 /**
@@ -118,6 +191,11 @@ export interface IdentifyResult extends TransactResult {
 export interface LoginResult extends IdentifyResult {
     /** The session created by the login. */
     session: LinkSession
+    /**
+     * Callback payload of the signed sign-in challenge, only present if a challenge
+     * was passed to [[Link.login]]. Post it to the server, see [[SignInService]].
+     */
+    challengePayload?: CallbackPayload
 }
 
 /**
@@ -126,6 +204,21 @@ export interface LoginResult extends IdentifyResult {
  */
 export type LinkChainType = LinkChain | ChainIdType | number
 
+/**
+ * Options for a [[LinkChain]].
+ * @internal
+ */
+export interface LinkChainOptions {
+    /** Persistent ABI cache. */
+    abiCache?: AbiCache
+    /** How long cached ABIs are used before being verified, in milliseconds. */
+    abiCacheTtl?: number
+    /** Preloaded ABIs keyed by account name. */
+    abis?: {[account: string]: ABIDef}
+    /** Scheme of requests for this chain. */
+    scheme?: SigningRequestEncodingOptions['scheme']
+}
+
 /**
  * Class representing a EOSIO chain.
  */
@@ -134,36 +227,136 @@ export class LinkChain implements AbiProvider {
     public chainId: ChainId
     /** API client instance used to communicate with the chain. */
     public client: JsonRpc
+    /** Scheme of requests for this chain, the link scheme is used if not set. */
+    public scheme?: SigningRequestEncodingOptions['scheme']
 
-    private abiCache = new Map<string, ABIDef>()
-    private pendingAbis = new Map<string, Promise<RpcInterfaces.GetAbiResult>>()
+    private abiCache?: AbiCache
+    private abiCacheTtl: number
+    private abiEntries = new Map<string, AbiCacheEntry>()
+    private preloadedAbis = new Map<string, ABIDef>()
+    private pendingAbis = new Map<string, Promise<ABIDef>>()
 
     /** @internal */
-    constructor(chainId: ChainIdType, clientOrUrl: JsonRpc | string) {
+    constructor(
+        chainId: ChainIdType,
+        clientOrUrl: JsonRpc | string | string[],
+        options: LinkChainOptions = {}
+    ) {
         this.chainId = ChainId.from(chainId)
-        this.client = typeof clientOrUrl === 'string' ? new JsonRpc(clientOrUrl) : clientOrUrl
+        if (typeof clientOrUrl === 'string') {
+            this.client = new JsonRpc(clientOrUrl)
+        } else if (Array.isArray(clientOrUrl)) {
+            this.client = new FailoverJsonRpc(clientOrUrl)
+        } else {
+            this.client = clientOrUrl
+        }
+        this.abiCache = options.abiCache
+        this.scheme = options.scheme
+        this.abiCacheTtl =
+            options.abiCacheTtl !== undefined
+                ? options.abiCacheTtl
+                : LinkOptions.defaults.abiCacheTtl
+        if (options.abis) {
+            for (const account of Object.keys(options.abis)) {
+                this.preloadAbi(account, options.abis[account])
+            }
+        }
+    }
+
+    /**
+     * Preload ABI for account, it will be used without ever fetching it from the node.
+     */
+    public preloadAbi(account: NameType, abi: ABIDef) {
+        this.preloadedAbis.set(String(Name.from(account)), abi)
     }
 
     /**
      * Fetch the ABI for given account, cached.
+     * @throws ChainError if the ABI could not be fetched.
      * @internal
      */
     public async getAbi(account: Name) {
         const key = String(account)
-        let rv = this.abiCache.get(key)
-        if (!rv) {
-            let getAbi = this.pendingAbis.get(key)
-            if (!getAbi) {
-                getAbi = this.client.get_abi(account.toString())
-                this.pendingAbis.set(key, getAbi)
+        const preloaded = this.preloadedAbis.get(key)
+        if (preloaded) {
+            return preloaded
+        }
+        let entry = this.abiEntries.get(key)
+        if (!entry && this.abiCache) {
+            try {
+                entry = (await this.abiCache.get(this.chainId, account)) || undefined
+            } catch (error) {
+                logWarn('Unable to read ABI cache', error)
             }
-            rv = (await getAbi).abi
-            this.pendingAbis.delete(key)
-            if (rv) {
-                this.abiCache.set(key, rv)
+        }
+        if (entry && Date.now() - entry.time < this.abiCacheTtl) {
+            this.abiEntries.set(key, entry)
+            return entry.abi
+        }
+        let pending = this.pendingAbis.get(key)
+        if (!pending) {
+            pending = this.refreshAbi(account, entry)
+                .catch((error) => {
+                    throw ChainError.from(error)
+                })
+                .finally(() => {
+                    this.pendingAbis.delete(key)
+                })
+            this.pendingAbis.set(key, pending)
+        }
+        return pending
+    }
+
+    /** Fetch ABI from node, if there is a stale entry it's only fetched again if the hash changed. */
+    private async refreshAbi(account: Name, stale?: AbiCacheEntry): Promise<ABIDef> {
+        const key = String(account)
+        let entry: AbiCacheEntry
+        try {
+            const res = await this.fetchAbi(key, stale && stale.hash)
+            if (!res.abi && !stale) {
+                return res.abi as ABIDef
             }
+            entry = {abi: res.abi || stale!.abi, hash: res.hash, time: Date.now()}
+        } catch (error) {
+            if (stale) {
+                logWarn(`Unable to refresh ABI for ${key}, using cached`, error)
+                return stale.abi
+            }
+            throw error
+        }
+        this.abiEntries.set(key, entry)
+        if (this.abiCache) {
+            try {
+                await this.abiCache.set(this.chainId, account, entry)
+            } catch (error) {
+                logWarn('Unable to write ABI cache', error)
+            }
+        }
+        return entry.abi
+    }
+
+    /**
+     * Fetch ABI and its hash using `get_raw_abi`, the ABI is omitted if it matches the given hash.
+     * Falls back to `get_abi` for nodes without `get_raw_abi` support.
+     */
+    private async fetchAbi(account: string, hash?: string): Promise<{abi?: ABIDef; hash?: string}> {
+        let raw: RpcInterfaces.GetRawAbiResult
+        try {
+            raw = await this.client.fetch('/v1/chain/get_raw_abi', {
+                account_name: account,
+                abi_hash: hash,
+            })
+        } catch {
+            const res = await this.client.get_abi(account)
+            return {abi: res.abi as ABIDef | undefined}
+        }
+        if (hash && raw.abi_hash === hash) {
+            return {hash}
+        }
+        return {
+            abi: raw.abi ? ABI.fromABI(new ABIDecoder(Base64u.decode(raw.abi))) : undefined,
+            hash: raw.abi_hash,
         }
-        return rv as ABIDef
     }
 }
 
@@ -203,10 +396,23 @@ export class Link {
     public readonly scheme: SigningRequestEncodingOptions['scheme']
     /** Scheme of request */
     public readonly walletType?: string
+    /** Rules for expiring stored sessions. */
+    public readonly sessionPolicy: LinkSessionPolicy
+    /** Cosigner paying for transaction resources. */
+    public readonly cosigner?: Cosigner
 
     private callbackService: LinkCallbackService
     private verifyProofs: boolean
     private encodeChainIds: boolean
+    private requestSigner?: SignatureProvider
+    private currentChain?: LinkChain
+    private events = new LinkEventEmitter()
+    private requestQueue = new LinkRequestQueue()
+    private history?: LinkHistoryStore
+    private requestInfo = new WeakMap<
+        SigningRequest,
+        {time: number; chain?: LinkChain; session?: LinkSession}
+    >()
 
     /** Create a new link instance. */
     constructor(options: LinkOptions) {
@@ -223,14 +429,28 @@ export class Link {
         if (chains.length === 0) {
             throw new TypeError('options.chains is required')
         }
-        this.chains = chains.map(({chainId, nodeUrl}) => {
+        if (options.storage !== null) {
+            this.storage = options.storage || options.transport.storage
+        }
+        this.chains = chains.map(({chainId, nodeUrl, abiCache, abis, scheme}) => {
             if (!chainId) {
                 throw new Error('options.chains[].chainId is required')
             }
             if (!nodeUrl) {
                 throw new Error('options.chains[].nodeUrl is required')
             }
-            return new LinkChain(chainId, nodeUrl)
+            if (abiCache === undefined) {
+                abiCache = options.abiCache
+            }
+            if (abiCache === undefined && this.storage) {
+                abiCache = new LinkStorageAbiCache(this.storage)
+            }
+            return new LinkChain(chainId, nodeUrl, {
+                abiCache: abiCache || undefined,
+                abiCacheTtl: options.abiCacheTtl,
+                abis,
+                scheme,
+            })
         })
         if (options.service === undefined || typeof options.service === 'string') {
             this.callbackService = new BuoyCallbackService(
@@ -240,9 +460,6 @@ export class Link {
             this.callbackService = options.service
         }
         this.transport = options.transport
-        if (options.storage !== null) {
-            this.storage = options.storage || this.transport.storage
-        }
         this.verifyProofs =
             options.verifyProofs !== undefined
                 ? options.verifyProofs
@@ -251,18 +468,100 @@ export class Link {
             options.encodeChainIds !== undefined
                 ? options.encodeChainIds
                 : LinkOptions.defaults.encodeChainIds
+        if (options.requestSigner) {
+            this.requestSigner = createRequestSigner(options.requestSigner)
+        }
         this.scheme = options.scheme
         if (options.walletType && options.walletType.length > 0) {
             this.walletType = options.walletType || ''
         }
+        this.sessionPolicy = options.sessionPolicy || {}
+        this.cosigner = options.cosigner
+        if (options.history && this.storage) {
+            this.history = new LinkHistoryStore(
+                this.storage,
+                options.history === true ? {} : options.history
+            )
+            this.trackHistory()
+        }
+        if (this.sessionPolicy.idleTimeout || this.sessionPolicy.maxDeliveryFailures) {
+            this.trackSessionUse()
+        }
     }
 
     /**
      * The APIClient instance for communicating with the node.
-     * @note This returns the first APIClient when link is configured with multiple chains.
+     * @note This returns the client of the [[activeChain]], or the first chain
+     *       when link is configured with multiple chains and none is active.
      */
     public get client() {
-        return this.chains[0].client
+        return (this.activeChain || this.chains[0]).client
+    }
+
+    /**
+     * Chain used for requests that don't specify one, e.g. [[login]] or [[transact]] without
+     * the `chain` option. Undefined when configured with multiple chains and no chain has been
+     * activated, the wallet then picks which of the configured chains to use.
+     */
+    public get activeChain(): LinkChain | undefined {
+        if (this.currentChain) {
+            return this.currentChain
+        }
+        return this.chains.length === 1 ? this.chains[0] : undefined
+    }
+
+    /**
+     * Switch the [[activeChain]], pass `null` to go back to multi-chain requests.
+     * Sessions are bound to their chain and are not affected.
+     * @throws If this link instance has no configured chain for given reference.
+     */
+    public setActiveChain(chain: LinkChainType | null) {
+        this.currentChain = chain !== null ? this.getChain(chain) : undefined
+        return this.activeChain
+    }
+
+    /**
+     * Subscribe to request lifecycle events, returns a function that removes the listener.
+     *
+     * ```ts
+     * link.on('request:signed', ({request, signer, elapsed}) => {
+     *     console.log(`${signer} signed ${request.getRawInfoKey('rid')} in ${elapsed}ms`)
+     * })
+     * ```
+     */
+    public on<E extends LinkEventName>(event: E, listener: LinkEventListener<E>) {
+        return this.events.on(event, listener)
+    }
+
+    /** Subscribe to the next occurrence of a request lifecycle event, see [[Link.on]]. */
+    public once<E extends LinkEventName>(event: E, listener: LinkEventListener<E>) {
+        return this.events.once(event, listener)
+    }
+
+    /** Remove a listener added with [[Link.on]]. */
+    public off<E extends LinkEventName>(event: E, listener: LinkEventListener<E>) {
+        this.events.off(event, listener)
+    }
+
+    /**
+     * Emit a lifecycle event for a request created by this link.
+     * @internal
+     */
+    public emitRequestEvent<E extends LinkEventName>(
+        event: E,
+        request: SigningRequest,
+        data: Omit<LinkEvents[E], Exclude<keyof LinkRequestEvent, 'chain'>>
+    ) {
+        const now = Date.now()
+        const info = this.requestInfo.get(request) || {time: now}
+        this.events.emit(event, {
+            request,
+            chain: info.chain,
+            session: info.session,
+            time: now,
+            elapsed: now - info.time,
+            ...data,
+        } as LinkEvents[E])
     }
 
     /**
@@ -291,24 +590,26 @@ export class Link {
 
     /**
      * Create a SigningRequest instance configured for this link.
+     * @param cosign Signer to resolve the transaction for and have the [[cosigner]] sign.
      * @internal
      */
     public async createRequest(
         args: SigningRequestCreateArguments,
         chain?: LinkChain,
-        transport?: LinkTransport
+        transport?: LinkTransport,
+        cosign?: PermissionLevel
     ) {
         const t = transport || this.transport
+        const c = chain || this.activeChain
         let request: SigningRequest
-        if (chain || this.chains.length === 1) {
-            const c = chain || this.chains[0]
+        if (c) {
             request = await SigningRequest.create(
                 {
                     ...args,
                     chainId: c.chainId,
                     broadcast: false,
                 },
-                {abiProvider: c, zlib, scheme: this.scheme}
+                {abiProvider: c, zlib, scheme: this.schemeFor(c)}
             )
         } else {
             // multi-chain request
@@ -323,16 +624,34 @@ export class Link {
                 {abiProvider: this.chains[0], zlib, scheme: this.scheme}
             )
         }
+        if (cosign) {
+            if (!c) {
+                throw new TypeError('Cosigning requires the chain, set options.chain')
+            }
+            request = await this.cosignRequest(request, c, cosign)
+        }
+        // random request id, the callback payload must echo it back
+        request.setRawInfoKey('rid', Bytes.random(16))
         if (t.prepare) {
             request = await t.prepare(request)
         }
         const callback = this.callbackService.create()
         request.setCallback(callback.url, true)
+        if (this.requestSigner) {
+            request.sign(this.requestSigner)
+        }
+        this.requestInfo.set(request, {
+            time: Date.now(),
+            chain: c,
+            session: t instanceof LinkSession ? t : undefined,
+        })
+        this.emitRequestEvent('request:created', request, {})
         return {request, callback}
     }
 
     /**
      * Send a SigningRequest instance using this link.
+     * @param onResponse Called once the wallet responded, before the transaction is broadcast.
      * @internal
      */
     public async sendRequest(
@@ -340,7 +659,8 @@ export class Link {
         callback: LinkCallback,
         chain?: LinkChain,
         transport?: LinkTransport,
-        broadcast = false
+        broadcast = false,
+        onResponse?: () => void
     ) {
         const t = transport || this.transport
         try {
@@ -362,89 +682,218 @@ export class Link {
                     const error = typeof reason === 'string' ? new CancelError(reason) : reason
                     if (t.recoverError && t.recoverError(error, request) === true) {
                         // transport was able to recover from the error
+                        this.emitRequestEvent('request:recovered', request, {error})
                         return
                     }
                     callback.cancel()
                     reject(error)
                 })
             })
+            // channel sessions emit once the channel accepted the request
+            if (!(t instanceof LinkChannelSession)) {
+                this.emitRequestEvent('request:delivered', request, {acknowledged: false})
+            }
             const callbackResponse = await Promise.race([callback.wait(), cancel])
             done = true
             if (typeof callbackResponse.rejected === 'string') {
                 throw new CancelError(callbackResponse.rejected)
             }
-            const payload = callbackResponse as CallbackPayload
-            const signer = PermissionLevel.from({
-                actor: payload.sa,
-                permission: payload.sp,
-            })
-            const signatures: Signature[] = Object.keys(payload)
-                .filter((key) => key.startsWith('sig') && key !== 'sig0')
-                .map((key) => Signature.from(payload[key]!))
-            let c: LinkChain
-            if (!chain && this.chains.length > 1) {
-                if (!payload.cid) {
-                    throw new Error(
-                        'Multi chain response payload must specify resolved chain id (cid)'
-                    )
-                }
-                c = this.getChain(payload.cid)
-            } else {
-                c = chain || this.getChain(0)
-                if (payload.cid && !c.chainId.equals(payload.cid)) {
-                    throw new Error('Got response for wrong chain id')
-                }
+            if (onResponse) {
+                onResponse()
             }
+            const payload = callbackResponse as CallbackPayload
+            const c = this.getResponseChain(payload, request, chain)
             // recreate transaction from request response
             const resolved = await ResolvedSigningRequest.fromPayload(payload, {
                 zlib,
                 abiProvider: c,
-                scheme: this.scheme,
+                scheme: this.schemeFor(c),
             })
-            // prepend cosigner signature if present
-            const cosignerSig = resolved.request.getInfoKey('cosig', {
-                type: Signature,
-                array: true,
-            }) as Signature[] | undefined
-            if (cosignerSig) {
-                signatures.unshift(...cosignerSig)
-            }
-            const result: TransactResult = {
-                resolved,
+            const rid = request.getRawInfoKey('rid')
+            if (rid && !rid.equals(resolved.request.getRawInfoKey('rid') || new Uint8Array(0))) {
+                throw new ReplayError('request id mismatch')
+            }
+            this.emitRequestEvent('request:signed', request, {
                 chain: c,
-                transaction: resolved.transaction,
-                resolvedTransaction: resolved.resolvedTransaction,
-                signatures,
+                signer: resolved.signer,
                 payload,
-                signer,
-            }
+                resolved,
+            })
+            const result = await this.finalizeResponse(resolved, payload, c, broadcast)
             if (broadcast) {
-                const signedTx = SignedTransaction.from({
-                    ...resolved.transaction,
-                    signatures,
-                }).toJSON()
-                const signedTxParsed = Serializer.objectify(signedTx)
-                const packedTx = PackedTransaction.fromSigned(signedTx)
-                const res = await c.client.push_transaction({
-                    serializedTransaction: packedTx.packed_trx.array,
-                    serializedContextFreeData: packedTx.packed_context_free_data.array,
-                    signatures: signedTxParsed.signatures,
-                    transactionHeader: signedTxParsed,
+                this.emitRequestEvent('tx:broadcast', request, {
+                    chain: c,
+                    transactionId: result.transaction.id,
+                    processed: result.processed,
                 })
-                result.processed = res.processed
             }
             if (t.onSuccess) {
                 t.onSuccess(request, result)
             }
             return result
-        } catch (error) {
+        } catch (caught) {
+            const error = toError(caught)
+            this.emitRequestEvent('request:failed', request, {error})
             if (t.onFailure) {
-                t.onFailure(request, error as any)
+                t.onFailure(request, error)
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Send a batch of SigningRequest instances using this link.
+     * @param callbacks The callback of every request, in batch order.
+     * @param onResponse Called once the wallet responded, before the transactions are broadcast.
+     * @internal
+     */
+    public async sendBatchRequest(
+        batch: SigningRequestBatch,
+        callbacks: LinkCallback[],
+        chain?: LinkChain,
+        transport?: LinkTransport,
+        broadcast = false,
+        onResponse?: () => void
+    ) {
+        const t = transport || this.transport
+        try {
+            if (!t.onBatchRequest) {
+                throw new Error('Transport does not support batch requests')
+            }
+            for (const [idx, request] of batch.requests.entries()) {
+                if (!callbacks[idx] || request.data.callback !== callbacks[idx].url) {
+                    throw new Error('Invalid request callback')
+                }
+                if (
+                    request.data.flags.broadcast === true ||
+                    request.data.flags.background === false
+                ) {
+                    throw new Error('Invalid request flags')
+                }
+            }
+            const cancelAll = () => callbacks.forEach((callback) => callback.cancel())
+            // wait for all callbacks or user cancel
+            let done = false
+            const cancel = new Promise<never>((resolve, reject) => {
+                t.onBatchRequest!(batch, (reason) => {
+                    if (done) {
+                        return
+                    }
+                    cancelAll()
+                    reject(typeof reason === 'string' ? new CancelError(reason) : reason)
+                })
+            })
+            if (!(t instanceof LinkChannelSession)) {
+                for (const request of batch.requests) {
+                    this.emitRequestEvent('request:delivered', request, {acknowledged: false})
+                }
+            }
+            const responses = Promise.all(
+                callbacks.map(async (callback) => {
+                    const response = await callback.wait()
+                    if (typeof response.rejected === 'string') {
+                        throw new CancelError(response.rejected)
+                    }
+                    return response as CallbackPayload
+                })
+            )
+            let payloads: CallbackPayload[]
+            try {
+                payloads = await Promise.race([responses, cancel])
+            } catch (error) {
+                cancelAll()
+                throw error
+            } finally {
+                done = true
+            }
+            if (onResponse) {
+                onResponse()
+            }
+            // every request has its own callback, make sure the payloads are for the right request
+            for (const [idx, payload] of payloads.entries()) {
+                let index: number
+                try {
+                    index = batch.getRequestIndex(payload)
+                } catch {
+                    index = -1
+                }
+                if (index !== idx) {
+                    throw new ReplayError(`response for wrong batch request (${idx})`)
+                }
+            }
+            const c = this.getResponseChain(payloads[0], batch.requests[0], chain)
+            for (const [idx, payload] of payloads.entries()) {
+                if (this.getResponseChain(payload, batch.requests[idx], chain) !== c) {
+                    throw new LinkError(
+                        'Got batch responses for different chains',
+                        'E_CHAIN_MISMATCH'
+                    )
+                }
+            }
+            const resolved = await ResolvedSigningRequestBatch.fromPayloads(batch, payloads, {
+                zlib,
+                abiProvider: c,
+                scheme: this.schemeFor(c),
+            })
+            for (const [idx, request] of batch.requests.entries()) {
+                this.emitRequestEvent('request:signed', request, {
+                    chain: c,
+                    signer: resolved.requests[idx].signer,
+                    payload: payloads[idx],
+                    resolved: resolved.requests[idx],
+                })
+            }
+            const results: TransactResult[] = []
+            // broadcast in batch order, later transactions may depend on earlier ones
+            for (const [idx, request] of resolved.requests.entries()) {
+                const result = await this.finalizeResponse(request, payloads[idx], c, broadcast)
+                if (broadcast) {
+                    this.emitRequestEvent('tx:broadcast', batch.requests[idx], {
+                        chain: c,
+                        transactionId: result.transaction.id,
+                        processed: result.processed,
+                    })
+                }
+                results.push(result)
+            }
+            if (t.onBatchSuccess) {
+                t.onBatchSuccess(batch, results)
+            }
+            return results
+        } catch (caught) {
+            const error = toError(caught)
+            for (const request of batch.requests) {
+                this.emitRequestEvent('request:failed', request, {error})
+            }
+            if (t.onBatchFailure) {
+                t.onBatchFailure(batch, error)
             }
             throw error
         }
     }
 
+    /**
+     * Number of requests waiting for the request in progress to finish.
+     *
+     * Requests are shown one at a time per transport, the requests of all sessions and the
+     * requests made without a session share one queue. See [[Link.transact]].
+     *
+     * @param session Count the requests of this session only, defaults to all requests.
+     */
+    public queueLength(session?: LinkSession) {
+        return this.requestQueue.size(session)
+    }
+
+    /**
+     * Cancel requests waiting for their turn, their promises reject with a [[CancelError]].
+     * The request in progress is not affected.
+     * @param session Cancel the requests of this session only, defaults to all requests.
+     * @returns The number of cancelled requests.
+     */
+    public cancelQueued(session?: LinkSession, reason?: string | Error) {
+        return this.requestQueue.cancel(session, reason)
+    }
+
     /**
      * Sign and optionally broadcast a EOSIO transaction, action or actions.
      *
@@ -454,53 +903,352 @@ export class Link {
      * let result = await myLink.transact({transaction: myTx})
      * ```
      *
+     * Calls made while the wallet is showing another request are queued until the wallet
+     * responded to it, see [[Link.queueLength]]. Broadcasting and waiting for finality
+     * happen outside the queue.
+     *
      * @param args The action, actions or transaction to use.
      * @param options Options for this transact call.
      * @param transport Transport override, for internal use.
      */
-    public async transact(
+    public transact(
         args: TransactArgs,
         options?: TransactOptions,
         transport?: LinkTransport
     ): Promise<TransactResult> {
-        const o = options || {}
         const t = transport || this.transport
+        return this.requestQueue.run(
+            this.queueKey(t),
+            (release) => this.sendTransact(args, options || {}, t, release),
+            t
+        )
+    }
+
+    private async sendTransact(
+        args: TransactArgs,
+        o: TransactOptions,
+        t: LinkTransport,
+        release: () => void
+    ) {
         const c = o.chain !== undefined ? this.getChain(o.chain) : undefined
         const broadcast = o.broadcast !== false
         const noModify = o.noModify !== undefined ? o.noModify : !broadcast
+        const simulateAs = o.simulate ? this.simulateSigner(o.simulate, t) : undefined
         // Initialize the loading state of the transport
         if (t && t.showLoading) {
             t.showLoading()
         }
-        // eosjs transact compat: upgrade to transaction if args have any header fields
-        const anyArgs = args as any
-        if (
-            args.actions &&
-            (anyArgs.expiration ||
-                anyArgs.ref_block_num ||
-                anyArgs.ref_block_prefix ||
-                anyArgs.max_net_usage_words ||
-                anyArgs.max_cpu_usage_ms ||
-                anyArgs.delay_sec)
-        ) {
-            args = {
+        const {request, callback} = await this.createRequest(
+            upgradeTransactArgs(args),
+            c,
+            t,
+            this.cosignerFor(o, t)
+        )
+        if (noModify) {
+            request.setInfoKey('no_modify', true, 'bool')
+        }
+        if (simulateAs) {
+            try {
+                await this.simulateRequest(
+                    request,
+                    c || this.activeChain || this.chains[0],
+                    simulateAs
+                )
+            } catch (caught) {
+                const error = toError(caught)
+                this.emitRequestEvent('request:failed', request, {error})
+                if (t.onFailure) {
+                    t.onFailure(request, error)
+                }
+                throw error
+            }
+        }
+        const result = await this.sendRequest(request, callback, c, t, broadcast, release)
+        if (broadcast && o.waitFor) {
+            await this.waitForFinality(request, result, o.waitFor, o.waitTimeout)
+        }
+        return result
+    }
+
+    /**
+     * Sign and optionally broadcast multiple independent transactions in a single request.
+     *
+     * The transactions are delivered to the wallet as one batch and every transaction
+     * gets its own callback, the results are returned in the same order as the arguments.
+     *
+     * Example:
+     *
+     * ```ts
+     * let results = await myLink.transactBatch([{action: listNft1}, {action: listNft2}])
+     * ```
+     *
+     * @param args The action, actions or transaction to use for each transaction.
+     * @param options Options for this transact call, applies to all transactions.
+     * @param transport Transport override, for internal use.
+     */
+    public transactBatch(
+        args: TransactArgs[],
+        options?: TransactOptions,
+        transport?: LinkTransport
+    ): Promise<TransactResult[]> {
+        const t = transport || this.transport
+        return this.requestQueue.run(
+            this.queueKey(t),
+            (release) => this.sendTransactBatch(args, options || {}, t, release),
+            t
+        )
+    }
+
+    private async sendTransactBatch(
+        args: TransactArgs[],
+        o: TransactOptions,
+        t: LinkTransport,
+        release: () => void
+    ) {
+        const c = o.chain !== undefined ? this.getChain(o.chain) : undefined
+        const broadcast = o.broadcast !== false
+        const noModify = o.noModify !== undefined ? o.noModify : !broadcast
+        if (args.length === 0) {
+            throw new TypeError('Batch must contain at least one transaction')
+        }
+        const simulateAs = o.simulate ? this.simulateSigner(o.simulate, t) : undefined
+        if (t && t.showLoading) {
+            t.showLoading()
+        }
+        const requests: SigningRequest[] = []
+        const callbacks: LinkCallback[] = []
+        const cosign = this.cosignerFor(o, t)
+        for (const item of args) {
+            const {request, callback} = await this.createRequest(
+                upgradeTransactArgs(item),
+                c,
+                t,
+                cosign
+            )
+            if (noModify) {
+                request.setInfoKey('no_modify', true, 'bool')
+            }
+            requests.push(request)
+            callbacks.push(callback)
+        }
+        const batch = SigningRequestBatch.create(requests, {
+            zlib,
+            scheme: this.schemeFor(c || this.activeChain),
+        })
+        if (simulateAs) {
+            try {
+                for (const request of requests) {
+                    await this.simulateRequest(
+                        request,
+                        c || this.activeChain || this.chains[0],
+                        simulateAs
+                    )
+                }
+            } catch (caught) {
+                const error = toError(caught)
+                for (const request of requests) {
+                    this.emitRequestEvent('request:failed', request, {error})
+                }
+                if (t.onBatchFailure) {
+                    t.onBatchFailure(batch, error)
+                }
+                throw error
+            }
+        }
+        const results = await this.sendBatchRequest(batch, callbacks, c, t, broadcast, release)
+        if (broadcast && o.waitFor) {
+            const {waitFor, waitTimeout} = o
+            await Promise.all(
+                results.map((result, idx) =>
+                    this.waitForFinality(requests[idx], result, waitFor, waitTimeout)
+                )
+            )
+        }
+        return results
+    }
+
+    /**
+     * Resolve the request and dry-run it using `compute_transaction`.
+     * Errors that prevent running the simulation are logged and ignored.
+     * @throws SimulationError if the transaction fails.
+     */
+    private async simulateRequest(
+        request: SigningRequest,
+        chain: LinkChain,
+        signer: PermissionLevel
+    ) {
+        let resolved: ResolvedSigningRequest | undefined
+        try {
+            const abis = await request.fetchAbis(chain)
+            resolved = request.resolve(abis, signer, await this.transactionHeader(chain, 60))
+            await chain.client.fetch('/v1/chain/compute_transaction', {
                 transaction: {
-                    expiration: '1970-01-01T00:00:00',
-                    ref_block_num: 0,
-                    ref_block_prefix: 0,
-                    max_net_usage_words: 0,
-                    max_cpu_usage_ms: 0,
-                    delay_sec: 0,
-                    ...anyArgs,
+                    signatures: [],
+                    compression: 0,
+                    packed_context_free_data: '',
+                    packed_trx: Serializer.encode({object: resolved.transaction}).hexString,
                 },
+            })
+        } catch (error) {
+            const failure = resolved && simulationFailure(error, resolved.transaction)
+            if (!failure) {
+                logWarn('Unable to simulate transaction', error)
+                return
             }
+            throw failure
         }
-        const {request, callback} = await this.createRequest(args, c, t)
-        if (noModify) {
-            request.setInfoKey('no_modify', true, 'bool')
+    }
+
+    /** TAPOS referencing the last irreversible block, expiring in given seconds. */
+    private async transactionHeader(chain: LinkChain, expireSeconds: number) {
+        const info = await chain.client.get_info().catch((error) => {
+            throw ChainError.from(error)
+        })
+        const blockId = Checksum256.from(info.last_irreversible_block_id).array
+        return {
+            expiration: TimePointSec.fromMilliseconds(
+                TimePointSec.from(info.head_block_time).toMilliseconds() + expireSeconds * 1000
+            ),
+            ref_block_num: info.last_irreversible_block_num & 0xffff,
+            ref_block_prefix: new DataView(blockId.buffer, blockId.byteOffset).getUint32(8, true),
+        }
+    }
+
+    /** Queue of a transport, sessions share the queue of the transport they deliver through. */
+    private queueKey(transport: LinkTransport) {
+        return transport instanceof LinkSession ? transport.link.transport : transport
+    }
+
+    /** The signer to simulate as, placeholders would fail contracts that look up the signer. */
+    private simulateSigner(simulate: true | PermissionLevelType, transport: LinkTransport) {
+        if (simulate !== true) {
+            return PermissionLevel.from(simulate)
+        }
+        if (transport instanceof LinkSession) {
+            return transport.auth
+        }
+        throw new TypeError(
+            'Simulating without a session requires the signer, set options.simulate'
+        )
+    }
+
+    /** The signer to cosign for, undefined if the transaction should not be cosigned. */
+    private cosignerFor(options: TransactOptions, transport: LinkTransport) {
+        const {cosign} = options
+        if (!this.cosigner || cosign === false) {
+            return undefined
+        }
+        if (cosign !== undefined && cosign !== true) {
+            return PermissionLevel.from(cosign)
+        }
+        if (transport instanceof LinkSession) {
+            return transport.auth
+        }
+        if (cosign === true) {
+            throw new TypeError(
+                'Cosigning without a session requires the signer, set options.cosign'
+            )
+        }
+        return undefined
+    }
+
+    /**
+     * Resolve the request for signer and replace it with the transaction returned by the cosigner.
+     * The cosigner signatures are passed along in the `cosig` info key and the wallet may not
+     * modify the transaction, that would invalidate them.
+     */
+    private async cosignRequest(
+        request: SigningRequest,
+        chain: LinkChain,
+        signer: PermissionLevel
+    ) {
+        const abis = await request.fetchAbis(chain)
+        // the user has to sign before the transaction expires, leave time for the wallet prompt
+        const resolved = request.resolve(abis, signer, await this.transactionHeader(chain, 300))
+        const {transaction, signatures} = await this.cosigner!.cosign(resolved.transaction, chain)
+        const rv = SigningRequest.fromTransaction(
+            chain.chainId,
+            Serializer.encode({object: transaction}),
+            {abiProvider: chain, zlib, scheme: this.schemeFor(chain)}
+        )
+        rv.setBroadcast(false)
+        rv.setInfoKey('cosig', signatures, {type: Signature, array: true})
+        rv.setInfoKey('no_modify', true, 'bool')
+        return rv
+    }
+
+    /**
+     * Poll the chain until the broadcast transaction reaches given finality.
+     * @throws FinalityError if the transaction expires, is dropped or the wait times out.
+     */
+    private async waitForFinality(
+        request: SigningRequest,
+        result: TransactResult,
+        waitFor: 'executed' | 'irreversible',
+        timeout = 5 * 60 * 1000
+    ) {
+        const {chain, transaction} = result
+        const deadline = Date.now() + timeout
+        const expiration = transaction.expiration.toMilliseconds()
+        let blockNumHint: number | undefined = result.processed && result.processed.block_num
+        let useStatusApi = true
+        try {
+            for (;;) {
+                let status: TransactionStatus | undefined
+                if (useStatusApi) {
+                    try {
+                        status = await getTransactionStatus(chain, transaction.id)
+                    } catch (error) {
+                        if (isMissingEndpoint(error)) {
+                            // node without the status api, use history instead
+                            useStatusApi = false
+                        } else {
+                            logWarn('Unable to get transaction status', error)
+                        }
+                    }
+                }
+                if (!status && !useStatusApi) {
+                    status = await getHistoryStatus(chain, transaction.id, blockNumHint).catch(
+                        (error) => {
+                            throw ChainError.from(error)
+                        }
+                    )
+                }
+                if (status) {
+                    if (status.blockNum) {
+                        blockNumHint = status.blockNum
+                    }
+                    if (status.state === 'dropped') {
+                        throw new FinalityError('dropped', result)
+                    }
+                    if (status.state === 'irreversible' || status.state === 'executed') {
+                        result.blockNum = status.blockNum
+                        result.irreversible = status.state === 'irreversible'
+                        if (result.irreversible) {
+                            this.emitRequestEvent('tx:irreversible', request, {
+                                chain,
+                                transactionId: transaction.id,
+                                blockNum: status.blockNum!,
+                            })
+                        }
+                        if (result.irreversible || waitFor === 'executed') {
+                            return
+                        }
+                    } else if (status.headTime > expiration) {
+                        throw new FinalityError('expired', result)
+                    }
+                }
+                const remaining = deadline - Date.now()
+                if (remaining <= 0) {
+                    throw new FinalityError('timeout', result)
+                }
+                await sleep(Math.min(remaining, 1000))
+            }
+        } catch (caught) {
+            const error = toError(caught)
+            this.emitRequestEvent('request:failed', request, {error})
+            throw error
         }
-        const result = await this.sendRequest(request, callback, c, t, broadcast)
-        return result
     }
 
     /**
@@ -508,21 +1256,29 @@ export class Link {
      * @param args.scope The scope of the identity request.
      * @param args.requestPermission Optional request permission if the request is for a specific account or permission.
      * @param args.info Metadata to add to the request.
+     * @param args.chain Chain to identify on, defaults to the [[activeChain]].
      * @note This is for advanced use-cases, you probably want to use [[Link.login]] instead.
      */
     public async identify(args: {
         // scope: NameType
         requestPermission?: PermissionLevelType
         info?: {[key: string]: ABISerializable | Bytes}
+        chain?: LinkChainType
     }): Promise<IdentifyResult> {
-        const {request, callback} = await this.createRequest({
-            identity: {
-                permission: args.requestPermission,
-                // scope: args.scope,
+        const c = args.chain !== undefined ? this.getChain(args.chain) : undefined
+        const {request, callback} = await this.createRequest(
+            {
+                identity: {
+                    permission: args.requestPermission,
+                    // scope: args.scope,
+                },
+                info: args.info,
             },
-            info: args.info,
-        })
-        const res = await this.sendRequest(request, callback)
+            c
+        )
+        const res = await this.requestQueue.run(this.transport, () =>
+            this.sendRequest(request, callback, c)
+        )
         if (!res.resolved.request.isIdentity()) {
             throw new IdentityError('Unexpected response')
         }
@@ -530,7 +1286,11 @@ export class Link {
         let account: RpcInterfaces.GetAccountResult | undefined
         const proof = res.resolved.getIdentityProof(res.signatures[0])
         if (this.verifyProofs) {
-            account = await res.chain.client.get_account(res.signer.actor.toString())
+            account = await res.chain.client
+                .get_account(res.signer.actor.toString())
+                .catch((error) => {
+                    throw ChainError.from(error)
+                })
             if (!account) {
                 throw new IdentityError(`Signature from unknown account: ${proof.signer.actor}`)
             }
@@ -574,8 +1334,17 @@ export class Link {
      * Login and create a persistent session.
      * @param identifier The session identifier, an EOSIO name (`[a-z1-5]{1,12}`).
      *                   Should be set to the contract account if applicable.
+     * @param options.challenge Server issued sign-in challenge, signed using the new session
+     *                          in a transaction that is not broadcast. The returned
+     *                          [[LoginResult.challengePayload]] can be posted to the server
+     *                          to verify the login, see [[SignInService]].
+     * @param options.chain Chain to create the session on, defaults to the [[activeChain]].
+     *                      Log in once per chain to get a session on each of them.
      */
-    public async login(identifier: NameType): Promise<LoginResult> {
+    public async login(
+        identifier: NameType,
+        options: {challenge?: SignInChallengeType; chain?: LinkChainType} = {}
+    ): Promise<LoginResult> {
         const privateKey = PrivateKey.generate('K1')
         const requestKey = privateKey.toPublic()
         const createInfo = LinkCreate.from({
@@ -585,6 +1354,7 @@ export class Link {
         })
         const res = await this.identify({
             // scope: identifier,
+            chain: options.chain,
             info: {
                 link: createInfo,
                 // scope: identifier,
@@ -623,10 +1393,17 @@ export class Link {
                 metadata
             )
         }
+        let challengePayload: CallbackPayload | undefined
+        if (options.challenge) {
+            const challenge = SignInChallenge.from(options.challenge)
+            const signed = await session.transact({action: challenge.action}, {broadcast: false})
+            challengePayload = signed.payload
+        }
         await this.storeSession(session)
         return {
             ...res,
             session,
+            challengePayload,
         }
     }
 
@@ -634,7 +1411,8 @@ export class Link {
      * Restore previous session, use [[login]] to create a new session.
      * @param identifier The session identifier, must be same as what was used when creating the session with [[login]].
      * @param auth A specific session auth to restore, if omitted the most recently used session will be restored.
-     * @param chainId If given function will only consider that specific chain when restoring session.
+     * @param chainId If given function will only consider that specific chain when restoring session,
+     *                defaults to the chain activated with [[setActiveChain]].
      * @returns A [[LinkSession]] instance or null if no session can be found.
      * @throws If no [[LinkStorage]] adapter is configured or there was an error retrieving the session data.
      **/
@@ -646,6 +1424,9 @@ export class Link {
         if (!this.storage) {
             throw new Error('Unable to restore session: No storage adapter configured')
         }
+        if (!chainId && this.currentChain) {
+            chainId = this.currentChain.chainId
+        }
         let key: string
         if (auth && chainId) {
             // both auth and chain id given, we can look up on specific key
@@ -683,7 +1464,13 @@ export class Link {
             )
         }
         const session = LinkSession.restore(this, sessionData)
-        if (auth || chainId) {
+        const expired = await this.checkSessionPolicy(session)
+        if (expired) {
+            await this.expireSession(session, expired)
+            return null
+        }
+        const {maxAge, idleTimeout} = this.sessionPolicy
+        if (auth || chainId || maxAge || idleTimeout) {
             // update latest used
             await this.touchSession(identifier, session.auth, session.chainId)
         }
@@ -693,23 +1480,56 @@ export class Link {
     /**
      * List stored session auths for given identifier.
      * The most recently used session is at the top (index 0).
+     * @param chainId If given only sessions for that chain are listed.
      * @throws If no [[LinkStorage]] adapter is configured or there was an error retrieving the session list.
      **/
-    public async listSessions(identifier: NameType) {
+    public async listSessions(identifier: NameType, chainId?: ChainIdType) {
         if (!this.storage) {
             throw new Error('Unable to list sessions: No storage adapter configured')
         }
         const key = this.sessionKey(identifier, 'list')
-        let list: {auth: PermissionLevelType; chainId: ChainIdType}[]
+        let list: {
+            auth: PermissionLevelType
+            chainId: ChainIdType
+            created?: number
+            used?: number
+            failures?: number
+        }[]
         try {
             list = JSON.parse((await this.storage.read(key)) || '[]')
         } catch (error) {
+            if (isLinkError(error)) {
+                throw error
+            }
             throw new Error(`Unable to list sessions: ${(error as any).message || String(error)}`)
         }
-        return list.map(({auth, chainId}) => ({
-            auth: PermissionLevel.from(auth),
-            chainId: ChainId.from(chainId),
+        const sessions = list.map((item) => ({
+            ...item,
+            auth: PermissionLevel.from(item.auth),
+            chainId: ChainId.from(item.chainId),
         }))
+        if (chainId) {
+            const id = ChainId.from(chainId)
+            return sessions.filter((item) => item.chainId.equals(id))
+        }
+        return sessions
+    }
+
+    /**
+     * List stored session auths for given identifier grouped by chain, keyed by chain id.
+     * Every configured chain has an entry, the most recently used session is at the top.
+     * @throws If no [[LinkStorage]] adapter is configured or there was an error retrieving the session list.
+     **/
+    public async listSessionsByChain(identifier: NameType) {
+        const groups: {[chainId: string]: {auth: PermissionLevel; chainId: ChainId}[]} = {}
+        for (const chain of this.chains) {
+            groups[String(chain.chainId)] = []
+        }
+        for (const item of await this.listSessions(identifier)) {
+            const id = String(item.chainId)
+            groups[id] = [...(groups[id] || []), item]
+        }
+        return groups
     }
 
     /**
@@ -722,7 +1542,10 @@ export class Link {
         }
         const key = this.sessionKey(identifier, formatAuth(auth), String(chainId))
         await this.storage.remove(key)
-        await this.touchSession(identifier, auth, chainId, true)
+        await this.touchSession(identifier, auth, chainId, 'remove')
+        if (this.history) {
+            await this.history.remove(this.historyKey(identifier, auth, chainId))
+        }
         if (await this.storage.read('wallet-type')) {
             this.storage.remove('wallet-type')
         }
@@ -744,6 +1567,36 @@ export class Link {
         }
     }
 
+    /**
+     * Transactions signed with session, newest first. The history is kept in the link storage
+     * and removed with the session, see [[LinkOptions.history]].
+     * @param query.limit Return at most this many transactions.
+     * @param query.status Only return transactions with this status.
+     * @throws If the history is not enabled.
+     */
+    public async getHistory(session: LinkSession, query?: LinkHistoryQuery) {
+        if (!this.history) {
+            throw new Error('Unable to get history: Transaction history not enabled')
+        }
+        return this.history.list(
+            this.historyKey(session.identifier, session.auth, session.chainId),
+            query
+        )
+    }
+
+    /**
+     * Remove the transaction history of session.
+     * @throws If the history is not enabled.
+     */
+    public async clearHistory(session: LinkSession) {
+        if (!this.history) {
+            throw new Error('Unable to clear history: Transaction history not enabled')
+        }
+        await this.history.remove(
+            this.historyKey(session.identifier, session.auth, session.chainId)
+        )
+    }
+
     /**
      * Create an eosjs compatible signature provider using this link.
      * @param availableKeys Keys the created provider will claim to be able to sign for.
@@ -761,11 +1614,11 @@ export class Link {
             getAvailableKeys: async () => availableKeys,
             sign: async (args) => {
                 const t = transport || this.transport
-                const c = chain ? this.getChain(chain) : this.chains[0]
+                const c = chain ? this.getChain(chain) : this.activeChain || this.chains[0]
                 let request = SigningRequest.fromTransaction(
                     args.chainId,
                     args.serializedTransaction,
-                    {abiProvider: c, zlib, scheme: this.scheme}
+                    {abiProvider: c, zlib, scheme: this.schemeFor(c)}
                 )
                 const callback = this.callbackService.create()
                 request.setCallback(callback.url, true)
@@ -773,6 +1626,9 @@ export class Link {
                 if (t.prepare) {
                     request = await t.prepare(request)
                 }
+                if (this.requestSigner) {
+                    request.sign(this.requestSigner)
+                }
                 const {transaction, signatures} = await this.sendRequest(request, callback, c, t)
                 const serializedTransaction = Serializer.encode({object: transaction})
                 return {
@@ -784,27 +1640,278 @@ export class Link {
         }
     }
 
-    /** Makes sure session is in storage list of sessions and moves it to top (most recently used). */
+    /**
+     * Return the chain a callback payload was resolved for, the request is expected to be
+     * resolved for the chain it was created for, regardless of the current [[activeChain]].
+     * @throws If the payload is for a chain other than the expected one.
+     */
+    private getResponseChain(payload: CallbackPayload, request: SigningRequest, chain?: LinkChain) {
+        let c = chain
+        if (!c) {
+            const info = this.requestInfo.get(request)
+            if (info) {
+                c = info.chain
+            } else if (!request.isMultiChain()) {
+                c = this.getChain(request.getChainId())
+            }
+        }
+        if (!c) {
+            if (!payload.cid) {
+                throw new Error('Multi chain response payload must specify resolved chain id (cid)')
+            }
+            return this.getChain(payload.cid)
+        }
+        if (payload.cid && !c.chainId.equals(payload.cid)) {
+            throw new LinkError('Got response for wrong chain id', 'E_CHAIN_MISMATCH')
+        }
+        return c
+    }
+
+    /** Collect signatures from a callback payload and broadcast the transaction if requested. */
+    private async finalizeResponse(
+        resolved: ResolvedSigningRequest,
+        payload: CallbackPayload,
+        chain: LinkChain,
+        broadcast: boolean
+    ) {
+        const signer = PermissionLevel.from({
+            actor: payload.sa,
+            permission: payload.sp,
+        })
+        const signatures: Signature[] = Object.keys(payload)
+            .filter((key) => key.startsWith('sig') && key !== 'sig0')
+            .map((key) => Signature.from(payload[key]!))
+        // prepend cosigner signature if present
+        const cosignerSig = resolved.request.getInfoKey('cosig', {
+            type: Signature,
+            array: true,
+        }) as Signature[] | undefined
+        if (cosignerSig) {
+            signatures.unshift(...cosignerSig)
+        }
+        const result: TransactResult = {
+            resolved,
+            chain,
+            transaction: resolved.transaction,
+            resolvedTransaction: resolved.resolvedTransaction,
+            signatures,
+            payload,
+            signer,
+        }
+        if (broadcast) {
+            const signedTx = SignedTransaction.from({
+                ...resolved.transaction,
+                signatures,
+            }).toJSON()
+            const signedTxParsed = Serializer.objectify(signedTx)
+            const packedTx = PackedTransaction.fromSigned(signedTx)
+            const res = await chain.client
+                .push_transaction({
+                    serializedTransaction: packedTx.packed_trx.array,
+                    serializedContextFreeData: packedTx.packed_context_free_data.array,
+                    signatures: signedTxParsed.signatures,
+                    transactionHeader: signedTxParsed,
+                })
+                .catch((error) => {
+                    throw ChainError.from(error)
+                })
+            result.processed = res.processed
+        }
+        return result
+    }
+
+    /**
+     * Update the stored session list, `store` and `use` move the session to the top.
+     * Storing a session restarts its age and delivery failures, using it resets the idle time.
+     */
     private async touchSession(
         identifier: NameType,
         auth: PermissionLevel,
         chainId: ChainId,
-        remove = false
+        action: 'store' | 'use' | 'remove' = 'use'
     ) {
         const list = await this.listSessions(identifier)
-        const existing = list.findIndex(
+        const index = list.findIndex(
             (item) => item.auth.equals(auth) && item.chainId.equals(chainId)
         )
-        if (existing >= 0) {
-            list.splice(existing, 1)
-        }
-        if (remove === false) {
-            list.unshift({auth, chainId})
+        const existing = index >= 0 ? list.splice(index, 1)[0] : undefined
+        if (action !== 'remove') {
+            const now = Date.now()
+            const kept = action === 'use' ? existing : undefined
+            list.unshift({
+                auth,
+                chainId,
+                created: (kept && kept.created) || now,
+                used: now,
+                failures: kept && kept.failures,
+            })
         }
         const key = this.sessionKey(identifier, 'list')
         await this.storage!.write(key, JSON.stringify(list))
     }
 
+    /**
+     * Check a restored session against the [[sessionPolicy]].
+     * @returns Why the session expired, undefined if it is still valid.
+     */
+    private async checkSessionPolicy(
+        session: LinkSession
+    ): Promise<LinkSessionExpiredEvent['reason'] | undefined> {
+        const {maxAge, idleTimeout, verifyKey} = this.sessionPolicy
+        if (maxAge || idleTimeout) {
+            const now = Date.now()
+            const entry = (await this.listSessions(session.identifier, session.chainId)).find(
+                (item) => item.auth.equals(session.auth)
+            )
+            if (maxAge && entry && entry.created && now - entry.created > maxAge) {
+                return 'expired'
+            }
+            if (idleTimeout && entry && entry.used && now - entry.used > idleTimeout) {
+                return 'idle'
+            }
+        }
+        if (verifyKey && !(await this.sessionKeyAuthorized(session))) {
+            return 'revoked'
+        }
+    }
+
+    /** Whether the session key is still in the account permission, true if the node can't tell. */
+    private async sessionKeyAuthorized(session: LinkSession) {
+        let account: RpcInterfaces.GetAccountResult
+        try {
+            account = await session.client.get_account(String(session.auth.actor))
+        } catch (error) {
+            logWarn('Unable to verify session key', error)
+            return true
+        }
+        const permission = account.permissions.find(({perm_name}) =>
+            session.auth.permission.equals(perm_name)
+        )
+        const keys = [String(session.publicKey), session.publicKey.toLegacyString()]
+        return (
+            !!permission &&
+            permission.required_auth.keys.some(({key}) => keys.includes(String(key)))
+        )
+    }
+
+    /** Remove a session and emit `session:expired`. */
+    private async expireSession(session: LinkSession, reason: LinkSessionExpiredEvent['reason']) {
+        await this.removeSession(session.identifier, session.auth, session.chainId)
+        this.events.emit('session:expired', {session, reason, time: Date.now()})
+    }
+
+    /**
+     * Track the use of sessions for the [[sessionPolicy]], sessions are used when the wallet
+     * signs and fail when requests can't be delivered.
+     */
+    private trackSessionUse() {
+        const {idleTimeout, maxDeliveryFailures} = this.sessionPolicy
+        const counted = new WeakSet<Error>()
+        const deliveryFailed = ({session, error}: {session?: LinkSession; error: Error}) => {
+            if (
+                session &&
+                maxDeliveryFailures &&
+                isLinkError(error, 'E_DELIVERY') &&
+                !counted.has(error)
+            ) {
+                // batch requests fail together with the same error
+                counted.add(error)
+                this.updateDeliveryFailures(session, true, maxDeliveryFailures).catch(
+                    (updateError) => logWarn('Unable to update session', updateError)
+                )
+            }
+        }
+        this.events.on('request:failed', deliveryFailed)
+        this.events.on('request:recovered', deliveryFailed)
+        this.events.on('request:delivered', ({session, acknowledged}) => {
+            if (session && acknowledged && maxDeliveryFailures) {
+                this.updateDeliveryFailures(session, false, maxDeliveryFailures).catch((error) =>
+                    logWarn('Unable to update session', error)
+                )
+            }
+        })
+        this.events.on('request:signed', ({session}) => {
+            if (session && idleTimeout && this.storage) {
+                this.touchSession(session.identifier, session.auth, session.chainId).catch(
+                    (error) => logWarn('Unable to update session', error)
+                )
+            }
+        })
+    }
+
+    /** Record the transactions signed with sessions and their status in the history. */
+    private trackHistory() {
+        const history = this.history!
+        const signed = new WeakMap<SigningRequest, {key: string; id: string}>()
+        const update = (request: SigningRequest, change: Partial<LinkHistoryEntry>) => {
+            const tx = signed.get(request)
+            if (tx) {
+                history
+                    .update(tx.key, {...change, id: tx.id})
+                    .catch((error) => logWarn('Unable to update transaction history', error))
+            }
+        }
+        this.events.on('request:signed', ({request, session, chain, signer, resolved, time}) => {
+            if (!session || resolved.request.isIdentity()) {
+                return
+            }
+            signed.set(request, {
+                key: this.historyKey(session.identifier, session.auth, session.chainId),
+                id: String(resolved.transaction.id),
+            })
+            update(request, {
+                chainId: String(chain.chainId),
+                signer: formatAuth(signer),
+                actions: summarizeActions(resolved.resolvedTransaction.actions).map(
+                    ({account, name, text}) => ({
+                        account: String(account),
+                        name: String(name),
+                        text,
+                    })
+                ),
+                status: 'signed',
+                created: time,
+                updated: time,
+            })
+        })
+        this.events.on('tx:broadcast', ({request, time}) => {
+            update(request, {status: 'broadcast', updated: time})
+        })
+        this.events.on('tx:irreversible', ({request, blockNum, time}) => {
+            update(request, {status: 'irreversible', blockNum, updated: time})
+        })
+        this.events.on('request:failed', ({request, error, time}) => {
+            update(request, {
+                status: 'failed',
+                error: {code: isLinkError(error) ? error.code : undefined, message: error.message},
+                updated: time,
+            })
+        })
+    }
+
+    /** Count a failed delivery or reset the count, expires the session after too many. */
+    private async updateDeliveryFailures(session: LinkSession, failed: boolean, max: number) {
+        if (!this.storage) {
+            return
+        }
+        const list = await this.listSessions(session.identifier)
+        const entry = list.find(
+            (item) => item.auth.equals(session.auth) && item.chainId.equals(session.chainId)
+        )
+        if (!entry || (!failed && !entry.failures)) {
+            return
+        }
+        entry.failures = failed ? (entry.failures || 0) + 1 : 0
+        if (entry.failures >= max) {
+            await this.expireSession(session, 'undeliverable')
+        } else {
+            await this.storage.write(
+                this.sessionKey(session.identifier, 'list'),
+                JSON.stringify(list)
+            )
+        }
+    }
+
     /**
      * Makes sure session is in storage list of sessions and moves it to top (most recently used).
      * @internal
@@ -818,7 +1925,7 @@ export class Link {
             )
             const data = JSON.stringify(session.serialize())
             await this.storage.write(key, data)
-            await this.touchSession(session.identifier, session.auth, session.chainId)
+            await this.touchSession(session.identifier, session.auth, session.chainId, 'store')
 
             // once successfully logged in, set wallet type so restore session can work properly
             if (this.walletType) {
@@ -827,6 +1934,16 @@ export class Link {
         }
     }
 
+    /** Request scheme for given chain. */
+    private schemeFor(chain?: LinkChain) {
+        return (chain && chain.scheme) || this.scheme
+    }
+
+    /** Storage key of the transaction history of a session. */
+    private historyKey(identifier: NameType, auth: PermissionLevelType, chainId: ChainIdType) {
+        return this.sessionKey(identifier, 'history', formatAuth(auth), String(chainId))
+    }
+
     /** Session storage key for identifier and suffix. */
     private sessionKey(identifier: NameType, ...suffix: string[]) {
         return [String(Name.from(identifier)), ...suffix].join('-')
@@ -860,3 +1977,171 @@ function formatAuth(auth: PermissionLevelType): string {
     }
     return `${actor}@${permission}`
 }
+
+/**
+ * eosjs transact compat: upgrade to transaction if args have any header fields.
+ * @internal
+ */
+function upgradeTransactArgs(args: TransactArgs): TransactArgs {
+    const anyArgs = args as any
+    if (
+        args.actions &&
+        (anyArgs.expiration ||
+            anyArgs.ref_block_num ||
+            anyArgs.ref_block_prefix ||
+            anyArgs.max_net_usage_words ||
+            anyArgs.max_cpu_usage_ms ||
+            anyArgs.delay_sec)
+    ) {
+        return {
+            transaction: {
+                expiration: '1970-01-01T00:00:00',
+                ref_block_num: 0,
+                ref_block_prefix: 0,
+                max_net_usage_words: 0,
+                max_cpu_usage_ms: 0,
+                delay_sec: 0,
+                ...anyArgs,
+            },
+        }
+    }
+    return args
+}
+
+/**
+ * Create a signature provider from the [[LinkOptions.requestSigner]] option.
+ * @internal
+ */
+function createRequestSigner(signer: NonNullable<LinkOptions['requestSigner']>): SignatureProvider {
+    if ('sign' in signer && typeof signer.sign === 'function') {
+        return signer
+    }
+    const {signer: name, key} = signer as {signer: NameType; key: PrivateKeyType}
+    const privateKey = PrivateKey.from(key)
+    return {
+        sign: (message) => ({signer: name, signature: privateKey.signDigest(message)}),
+    }
+}
+
+/**
+ * Create a [[SimulationError]] from a failed `compute_transaction` call,
+ * returns null if the error did not come from executing the transaction.
+ * @internal
+ */
+function simulationFailure(error: unknown, transaction: Transaction): SimulationError | null {
+    const json = error && typeof error === 'object' ? (error as {json?: any}).json : undefined
+    if (!json) {
+        return null
+    }
+    const processed = json.processed
+    const except = processed && processed.except
+    const messages = nodeErrorMessages(json)
+    if (!except && messages.length === 0) {
+        return null
+    }
+    const assertion =
+        parseAssertion(json) ||
+        messages[0] ||
+        (except && except.message) ||
+        (json.error && json.error.what) ||
+        'Unknown error'
+    // the last root action trace is the one that was executing when the transaction failed
+    let actionIndex: number | undefined
+    const traces: any[] = (processed && processed.action_traces) || []
+    const roots = traces.filter((trace) => !trace.creator_action_ordinal)
+    if (roots.length > 0) {
+        actionIndex = roots[roots.length - 1].action_ordinal - 1
+    } else if (transaction.actions.length === 1) {
+        actionIndex = 0
+    }
+    const action = actionIndex !== undefined ? transaction.actions[actionIndex] : undefined
+    return new SimulationError(
+        assertion,
+        actionIndex,
+        action ? {account: String(action.account), name: String(action.name)} : undefined,
+        json
+    )
+}
+
+/**
+ * Status of a broadcast transaction.
+ * @internal
+ */
+interface TransactionStatus {
+    state: 'pending' | 'executed' | 'irreversible' | 'dropped'
+    /** Block the transaction was included in, if any. */
+    blockNum?: number
+    /** Head block time of the node, in milliseconds. */
+    headTime: number
+}
+
+/**
+ * Get transaction status using `get_transaction_status`.
+ * @throws If the node does not support the status api.
+ * @internal
+ */
+async function getTransactionStatus(chain: LinkChain, id: Checksum256): Promise<TransactionStatus> {
+    const res = await chain.client.fetch('/v1/chain/get_transaction_status', {id: String(id)})
+    let state: TransactionStatus['state']
+    switch (res.state) {
+        case 'IRREVERSIBLE':
+            state = 'irreversible'
+            break
+        case 'IN_BLOCK':
+            state = 'executed'
+            break
+        case 'FAILED':
+            state = 'dropped'
+            break
+        default:
+            // LOCALLY_APPLIED, FORKED_OUT or UNKNOWN, can still make it into a block
+            state = 'pending'
+    }
+    return {
+        state,
+        blockNum: state !== 'pending' && res.block_number ? Number(res.block_number) : undefined,
+        headTime: TimePointSec.from(res.head_timestamp).toMilliseconds(),
+    }
+}
+
+/**
+ * Whether the error is a node response for an endpoint it does not have, e.g. a node
+ * without the `get_transaction_status` api.
+ * @internal
+ */
+function isMissingEndpoint(error: unknown) {
+    const json = error && typeof error === 'object' ? (error as {json?: any}).json : undefined
+    return (
+        !!json &&
+        (json.code === 404 ||
+            nodeErrorMessages(json).some((message) => /unknown endpoint/i.test(message)))
+    )
+}
+
+/**
+ * Get transaction status using the history api, transactions not found are pending.
+ * @internal
+ */
+async function getHistoryStatus(
+    chain: LinkChain,
+    id: Checksum256,
+    blockNumHint?: number
+): Promise<TransactionStatus> {
+    try {
+        const res = await chain.client.history_get_transaction(String(id), blockNumHint)
+        const blockNum = Number(res.block_num)
+        const irreversible =
+            res.irreversible === true || blockNum <= Number(res.last_irreversible_block)
+        return {
+            state: irreversible ? 'irreversible' : 'executed',
+            blockNum,
+            headTime: Date.now(),
+        }
+    } catch {
+        const info = await chain.client.get_info()
+        return {
+            state: 'pending',
+            headTime: TimePointSec.from(info.head_block_time).toMilliseconds(),
+        }
+    }
+}
@@ -96,3 +96,19 @@ export function logWarn(...args: any[]) {
     // eslint-disable-next-line no-console
     console.warn('[anchor-link]', ...args)
 }
+
+/**
+ * Narrow a caught value to an Error, wrapping anything else.
+ * @internal
+ */
+export function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error))
+}
+
+/**
+ * Resolve after given number of milliseconds.
+ * @internal
+ **/
+export function sleep(ms: number) {
+    return new Promise<void>((resolve) => setTimeout(resolve, ms))
+}
@@ -0,0 +1,84 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {RpcError} from '@proton/js'
+
+import {Name} from '@greymass/eosio'
+
+import {CancelError, ChainError, isLinkError, LinkChain, LinkError, parseAssertion} from '../src'
+
+const assertFailure = {
+    code: 500,
+    message: 'Internal Service Error',
+    error: {
+        code: 3050003,
+        name: 'eosio_assert_message_exception',
+        what: 'eosio_assert_message assertion failure',
+        details: [
+            {message: 'assertion failure with message: overdrawn balance', method: 'eosio_assert'},
+            {message: 'pending console output: ', method: 'apply_context::exec_one'},
+        ],
+    },
+}
+
+suite('errors', function () {
+    test('codes', function () {
+        const cancel = new CancelError('closed')
+        assert.ok(cancel instanceof LinkError)
+        assert.ok(isLinkError(cancel))
+        assert.ok(isLinkError(cancel, 'E_CANCEL'))
+        assert.ok(!isLinkError(cancel, 'E_TIMEOUT'))
+        assert.ok(!isLinkError(new Error('nope')))
+        assert.ok(!isLinkError('E_CANCEL'))
+        // errors from another copy of the library
+        const foreign = Object.assign(new Error('Wallet closed'), {code: 'E_WALLET_CLOSED'})
+        assert.ok(isLinkError(foreign, 'E_WALLET_CLOSED'))
+    })
+
+    test('parse assertions', function () {
+        assert.equal(parseAssertion(assertFailure), 'overdrawn balance')
+        assert.equal(parseAssertion(new RpcError(assertFailure)), 'overdrawn balance')
+        assert.equal(
+            parseAssertion({error: {details: [{message: 'missing authority'}]}}),
+            undefined
+        )
+        assert.equal(parseAssertion(undefined), undefined)
+    })
+
+    test('chain errors', function () {
+        const assertion = ChainError.from(new RpcError(assertFailure)) as ChainError
+        assert.ok(isLinkError(assertion, 'E_ASSERTION'))
+        assert.equal(assertion.assertion, 'overdrawn balance')
+        assert.deepEqual(assertion.json, assertFailure)
+        // raw node response, e.g. relayed by a wallet
+        const relayed = ChainError.from(assertFailure)
+        assert.equal(relayed.code, 'E_ASSERTION')
+        assert.equal(relayed.message, 'assertion failure with message: overdrawn balance')
+        const unreachable = ChainError.from(new TypeError('Failed to fetch'))
+        assert.equal(unreachable.code, 'E_RPC')
+        assert.equal(unreachable.message, 'Failed to fetch')
+        // link errors are passed through
+        const cancel = new CancelError()
+        assert.equal(ChainError.from(cancel), cancel)
+    })
+
+    test('chain requests', async function () {
+        const unknownAccount = {code: 500, message: 'Internal Service Error', error: {details: []}}
+        const client = {
+            async fetch() {
+                throw new RpcError(unknownAccount)
+            },
+            async get_abi() {
+                throw new RpcError(unknownAccount)
+            },
+        }
+        const chain = new LinkChain(
+            'beefface00000000000000000000000000000000000000000000000000000000',
+            client as any
+        )
+        await assert.rejects(chain.getAbi(Name.from('nobody')), (error: any) => {
+            assert.ok(isLinkError(error, 'E_RPC'))
+            assert.deepEqual(error.json, unknownAccount)
+            return true
+        })
+    })
+})
@@ -0,0 +1,99 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {isLinkError, LinkRequestQueue} from '../src'
+
+function deferred<T>() {
+    let resolve!: (value: T) => void
+    let reject!: (error: Error) => void
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res
+        reject = rej
+    })
+    return {promise, resolve, reject}
+}
+
+suite('queue', function () {
+    test('one task at a time per key', async function () {
+        const queue = new LinkRequestQueue()
+        const sessionA = {}
+        const sessionB = {}
+        const first = deferred<string>()
+        const started: string[] = []
+        const a1 = queue.run(sessionA, () => {
+            started.push('a1')
+            return first.promise
+        })
+        const a2 = queue.run(sessionA, async () => {
+            started.push('a2')
+            return 'a2'
+        })
+        const b1 = queue.run(sessionB, async () => {
+            started.push('b1')
+            return 'b1'
+        })
+        assert.equal(await b1, 'b1')
+        assert.deepEqual(started, ['a1', 'b1'])
+        assert.equal(queue.size(sessionA), 1)
+        assert.equal(queue.size(), 1)
+        first.reject(new Error('nope'))
+        await assert.rejects(a1, /nope/)
+        assert.equal(await a2, 'a2')
+        assert.deepEqual(started, ['a1', 'b1', 'a2'])
+        assert.equal(queue.size(), 0)
+        assert.ok(!queue.isBusy(sessionA))
+    })
+
+    test('cancel queued tasks', async function () {
+        const queue = new LinkRequestQueue()
+        const session = {}
+        const running = deferred<string>()
+        const r1 = queue.run(session, () => running.promise)
+        const r2 = queue.run(session, async () => 'r2')
+        const r3 = queue.run(session, async () => 'r3')
+        assert.equal(queue.cancel(session, 'Logged out'), 2)
+        await assert.rejects(r2, (error) => isLinkError(error, 'E_CANCEL'))
+        await assert.rejects(r3, /Logged out/)
+        assert.equal(queue.size(session), 0)
+        // the running task is not affected
+        running.resolve('r1')
+        assert.equal(await r1, 'r1')
+        assert.equal(await queue.run(session, async () => 'r4'), 'r4')
+        const r5 = queue.run(session, () => running.promise)
+        const r6 = queue.run(session, async () => 'r6')
+        queue.cancel(session)
+        await assert.rejects(r6, (error: Error) => error.message.trim() === 'Request cancelled')
+        assert.equal(await r5, 'r1')
+    })
+
+    test('release and tagged tasks', async function () {
+        const queue = new LinkRequestQueue()
+        const transport = {}
+        const session = {}
+        const signed = deferred<void>()
+        const finality = deferred<string>()
+        const started: string[] = []
+        const s1 = queue.run(
+            transport,
+            async (release) => {
+                started.push('s1')
+                await signed.promise
+                release()
+                return finality.promise
+            },
+            session
+        )
+        const s2 = queue.run(transport, async () => 's2', session)
+        const t1 = queue.run(transport, async () => 't1')
+        assert.equal(queue.size(), 2)
+        assert.equal(queue.size(session), 1)
+        assert.equal(queue.size(transport), 1)
+        signed.resolve()
+        assert.equal(await s2, 's2')
+        assert.equal(await t1, 't1')
+        assert.deepEqual(started, ['s1'])
+        finality.resolve('s1')
+        assert.equal(await s1, 's1')
+        assert.ok(!queue.isBusy(transport))
+    })
+})
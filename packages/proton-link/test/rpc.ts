@@ -0,0 +1,121 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {createServer, Server} from 'http'
+import {AddressInfo} from 'net'
+
+import {FailoverJsonRpc} from '../src'
+
+interface TestNode {
+    url: string
+    server: Server
+    calls: string[]
+    headBlockNum: number
+    respond?: (path: string) => {status: number; body: string} | undefined
+}
+
+async function startNode(headBlockNum = 1000): Promise<TestNode> {
+    const node: TestNode = {url: '', server: createServer(), calls: [], headBlockNum}
+    node.server.on('request', (request, response) => {
+        node.calls.push(request.url!)
+        const custom = node.respond && node.respond(request.url!)
+        if (custom) {
+            response.statusCode = custom.status
+            response.end(custom.body)
+            return
+        }
+        response.setHeader('Content-Type', 'application/json')
+        response.end(JSON.stringify({head_block_num: node.headBlockNum, path: request.url}))
+    })
+    await new Promise<void>((resolve) => node.server.listen(0, '127.0.0.1', () => resolve()))
+    node.url = `http://127.0.0.1:${(node.server.address() as AddressInfo).port}`
+    return node
+}
+
+function stopNode(node: TestNode) {
+    return new Promise<void>((resolve) => node.server.close(() => resolve()))
+}
+
+suite('rpc', function () {
+    let nodes: TestNode[] = []
+
+    setup(async function () {
+        nodes = [await startNode(), await startNode()]
+    })
+
+    teardown(async function () {
+        await Promise.all(nodes.filter((node) => node.server.listening).map(stopNode))
+    })
+
+    test('fail over reads', async function () {
+        const [down, up] = nodes
+        await stopNode(down)
+        const rpc = new FailoverJsonRpc([down.url, up.url], {healthCheckInterval: 0})
+        const info = await rpc.get_info()
+        assert.equal(info.head_block_num, 1000)
+        assert.equal(rpc.currentEndpoint, up.url)
+        const [first, second] = rpc.ranking
+        assert.equal(first.url, up.url)
+        assert.equal(second.url, down.url)
+        assert.equal(second.consecutiveErrors, 1)
+        assert.ok(second.lastError)
+
+        // unhealthy after repeated failures, only tried when nothing else is left
+        await stopNode(up)
+        for (let i = 0; i < 3; i++) {
+            await assert.rejects(rpc.get_info(), (error: any) => error.isFetchError === true)
+        }
+        assert.deepEqual(
+            rpc.ranking.map(({healthy}) => healthy),
+            [false, false]
+        )
+    })
+
+    test('never push twice', async function () {
+        const [flaky, other] = nodes
+        flaky.respond = () => ({status: 502, body: 'Bad Gateway'})
+        const rpc = new FailoverJsonRpc([flaky.url, other.url], {healthCheckInterval: 0})
+        await assert.rejects(
+            rpc.fetch('/v1/chain/push_transaction', {signatures: []}),
+            /Status 502/
+        )
+        assert.deepEqual(other.calls, [])
+        // reads move on to the next endpoint
+        await rpc.fetch('/v1/chain/get_info', {})
+        assert.deepEqual(other.calls, ['/v1/chain/get_info'])
+        await rpc.fetch('/v1/chain/push_transaction', {signatures: []})
+        assert.deepEqual(other.calls, ['/v1/chain/get_info', '/v1/chain/push_transaction'])
+    })
+
+    test('api errors are not retried', async function () {
+        const [a, b] = nodes
+        const error = {code: 500, message: 'Internal', error: {name: 'eosio_assert', details: []}}
+        a.respond = () => ({status: 500, body: JSON.stringify(error)})
+        const rpc = new FailoverJsonRpc([a.url, b.url], {healthCheckInterval: 0})
+        await assert.rejects(rpc.fetch('/v1/chain/get_table_rows', {}), (e: any) => {
+            assert.deepEqual(e.json, error)
+            return true
+        })
+        assert.deepEqual(b.calls, [])
+        assert.equal(rpc.ranking[0].url, a.url)
+        assert.equal(rpc.ranking[0].errors, 0)
+    })
+
+    test('rank by head block lag', async function () {
+        const [lagging, synced] = nodes
+        lagging.headBlockNum = 900
+        const rpc = new FailoverJsonRpc([lagging.url, synced.url], {
+            healthCheckInterval: 0,
+            maxHeadLag: 60,
+        })
+        const ranking = await rpc.checkHealth()
+        assert.deepEqual(
+            ranking.map(({url, healthy, headLag}) => ({url, healthy, headLag})),
+            [
+                {url: synced.url, healthy: true, headLag: 0},
+                {url: lagging.url, healthy: false, headLag: 100},
+            ]
+        )
+        await rpc.get_info()
+        assert.equal(rpc.currentEndpoint, synced.url)
+    })
+})
@@ -1,23 +1,39 @@
 import {strict as assert} from 'assert'
 import 'mocha'
 
-import {Link, LinkTransport} from '../src'
-import {SigningRequest} from '@proton/signing-request'
 import {
+    fetchContractTypes,
+    isLinkError,
+    Link,
+    LinkChain,
+    LinkEvents,
+    LinkStorage,
+    LinkStorageAbiCache,
+    LinkTransport,
+    LocalCosigner,
+    SessionError,
+} from '../src'
+import {Base64u, SignInService, SigningRequest, SigningRequestBatch} from '@proton/signing-request'
+import {
+    ABI,
     API,
     APIClient,
     APIProvider,
+    Bytes,
     PermissionLevel,
     PrivateKey,
+    Serializer,
     TimePointSec,
+    Transaction,
 } from '@greymass/eosio'
 import {LinkCallback, LinkCallbackResponse, LinkCallbackService} from '../src/link-callback'
 import {readFileSync} from 'fs'
 import {join as pathJoin} from 'path'
 import {LinkCreate} from '../src/link-types'
+import zlib from 'pako'
 
 const now = TimePointSec.fromMilliseconds(Date.now())
-const expiration = TimePointSec.fromMilliseconds(Date.now() + (2 * 60 * 1000))
+const expiration = TimePointSec.fromMilliseconds(Date.now() + 2 * 60 * 1000)
 
 class TestManager implements LinkTransport, APIProvider, LinkCallbackService, LinkCallback {
     key = PrivateKey.generate('K1')
@@ -85,7 +101,11 @@ class TestManager implements LinkTransport, APIProvider, LinkCallbackService, Li
     }
 
     // api
+    unavailable?: string
     async call(path: string, params?: any) {
+        if (path === this.unavailable) {
+            throw new Error(`Unknown endpoint ${path}`)
+        }
         switch (path) {
             case '/v1/chain/get_account':
                 return this.account
@@ -97,6 +117,58 @@ class TestManager implements LinkTransport, APIProvider, LinkCallbackService, Li
             case '/v1/chain/push_transaction': {
                 return {}
             }
+            case '/v1/chain/get_transaction_status':
+                if (this.statusFailures > 0) {
+                    this.statusFailures--
+                    throw new Error('Network error')
+                }
+                if (!this.transactionStatus) {
+                    const error: any = new Error('Not Found')
+                    error.json = {
+                        code: 404,
+                        message: 'Not Found',
+                        error: {details: [{message: 'Unknown Endpoint'}]},
+                    }
+                    throw error
+                }
+                return {head_timestamp: now, ...this.transactionStatus}
+            case '/v1/chain/get_info':
+                return {
+                    head_block_time: now,
+                    last_irreversible_block_num: 123456700,
+                    last_irreversible_block_id:
+                        '075bcd3c2b1ab8e0e2e7b0d5a1e7e9e0b4a3c2d1e0f9a8b7c6d5e4f3a2b1c0d9',
+                }
+            case '/v1/chain/compute_transaction': {
+                const trx = Serializer.decode({
+                    data: params.transaction.packed_trx,
+                    type: Transaction,
+                })
+                const failing = trx.actions.findIndex((action) =>
+                    action.data.hexString.endsWith(Bytes.from('fail', 'utf8').hexString)
+                )
+                if (failing === -1) {
+                    return {processed: {except: null}}
+                }
+                const error: any = new Error('Transaction exception')
+                error.json = {
+                    processed: {
+                        except: {
+                            stack: [
+                                {
+                                    format: 'assertion failure with message: ${s}',
+                                    data: {s: 'overdrawn balance'},
+                                },
+                            ],
+                        },
+                        action_traces: trx.actions.slice(0, failing + 1).map((_, idx) => ({
+                            action_ordinal: idx + 1,
+                            creator_action_ordinal: 0,
+                        })),
+                    },
+                }
+                throw error
+            }
             default:
                 throw new Error(`Unexpected request to ${path}`)
         }
@@ -107,8 +179,12 @@ class TestManager implements LinkTransport, APIProvider, LinkCallbackService, Li
     create() {
         return this
     }
+    replay?: LinkCallbackResponse
     async wait(): Promise<LinkCallbackResponse> {
-        const request = this.lastRequest
+        const request = this.pending.shift()
+        if (this.replay) {
+            return this.replay
+        }
         if (!request) {
             throw new Error('No request')
         }
@@ -129,12 +205,42 @@ class TestManager implements LinkTransport, APIProvider, LinkCallbackService, Li
     }
     cancel() {}
 
+    // rpc
+    async get_info() {
+        return this.call('/v1/chain/get_info')
+    }
+    async fetch(path: string, body: any) {
+        return this.call(path, body)
+    }
+    async get_account() {
+        return this.account
+    }
+    async get_abi(account: string) {
+        return this.call('/v1/chain/get_abi', {account_name: account})
+    }
+    async push_transaction() {
+        return {processed: {id: 'beef', block_num: 123456790}}
+    }
+    transactionStatus?: any
+    statusFailures = 0
+    async history_get_transaction(id: string) {
+        return {id, block_num: 123456790, last_irreversible_block: 123456800, irreversible: true}
+    }
+
     // transport
+    pending: SigningRequest[] = []
     lastRequest?: SigningRequest
+    lastBatch?: SigningRequestBatch
     lastCancel?: (reason: string | Error) => void
     onRequest(request: SigningRequest, cancel: (reason: string | Error) => void): void {
         this.lastRequest = request
         this.lastCancel = cancel
+        this.pending = [request]
+    }
+    onBatchRequest(batch: SigningRequestBatch, cancel: (reason: string | Error) => void): void {
+        this.lastBatch = batch
+        this.lastCancel = cancel
+        this.pending = [...batch.requests]
     }
 }
 
@@ -150,9 +256,58 @@ const link = new Link({
     transport: manager,
     service: manager,
     verifyProofs: true,
-    scheme: 'proton'
+    scheme: 'proton',
 })
 
+// link using the manager as rpc client
+const rpcLink = new Link({
+    chains: [
+        {
+            nodeUrl: manager as any,
+            chainId: 'beefface00000000000000000000000000000000000000000000000000000000',
+        },
+    ],
+    transport: manager,
+    service: manager,
+    scheme: 'proton',
+})
+
+class MemoryStorage implements LinkStorage {
+    data = new Map<string, string>()
+    async write(key: string, data: string) {
+        this.data.set(key, data)
+    }
+    async read(key: string) {
+        return this.data.get(key) || null
+    }
+    async remove(key: string) {
+        this.data.delete(key)
+    }
+}
+
+// rpc client only supporting get_raw_abi, records the abi hash of every request
+class RawAbiClient {
+    calls: (string | undefined)[] = []
+    abi = ABI.from(
+        JSON.parse(readFileSync(pathJoin(__dirname, 'abis', 'eosio.token.json')).toString())
+    )
+    async fetch(path: string, body: any) {
+        this.calls.push(body.abi_hash)
+        const response: any = {account_name: body.account_name, abi_hash: 'beef'}
+        if (body.abi_hash !== response.abi_hash) {
+            response.abi = Base64u.encode(Serializer.encode({object: this.abi}).array)
+        }
+        return response
+    }
+}
+
+const transfer = {
+    account: 'eosio.token',
+    name: 'transfer',
+    authorization: [manager.signer],
+    data: {from: manager.signer.actor, to: 'teamgreymass', quantity: '1.0000 EOS', memo: ''},
+}
+
 suite('session', function () {
     test('login & transact', async function () {
         const {account, session, transaction, resolvedTransaction} = await link.login('test')
@@ -174,6 +329,491 @@ suite('session', function () {
             },
         })
     })
+    test('transact batch', async function () {
+        const memos = ['one', 'two', 'three']
+        const results = await rpcLink.transactBatch(
+            memos.map((memo) => ({
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [manager.signer],
+                    data: {
+                        from: manager.signer.actor,
+                        to: 'teamgreymass',
+                        quantity: '1.0000 EOS',
+                        memo,
+                    },
+                },
+            })),
+            {broadcast: false}
+        )
+        assert.equal(manager.lastBatch!.requests.length, 3)
+        assert.deepEqual(
+            results.map((result) => result.resolvedTransaction.actions[0].data.memo),
+            memos
+        )
+        assert.equal(String(results[1].signer), 'foobar@active')
+    })
+    test('refuse replayed callback', async function () {
+        const {payload} = await rpcLink.transact({action: transfer}, {broadcast: false})
+        manager.replay = payload
+        try {
+            await rpcLink.transact({action: transfer}, {broadcast: false})
+            assert.fail()
+        } catch (error: any) {
+            assert.equal(error.code, 'E_REPLAY')
+        } finally {
+            manager.replay = undefined
+        }
+    })
+    test('generate contract types', async function () {
+        const source = await fetchContractTypes(rpcLink.chains[0], 'eosio.token')
+        assert.ok(source.includes("export const account = 'eosio.token'"))
+        assert.ok(source.includes('export function transfer(data: Transfer'))
+    })
+    test('abi cache', async function () {
+        const chainId = 'beefface00000000000000000000000000000000000000000000000000000000'
+        const client = new RawAbiClient()
+        const storage = new MemoryStorage()
+        const abiCache = new LinkStorageAbiCache(storage)
+        const chain = new LinkChain(chainId, client as any, {abiCache})
+        const abis = await Promise.all([
+            chain.getAbi(transfer.account as any),
+            chain.getAbi(transfer.account as any),
+        ])
+        assert.deepEqual(client.calls, [undefined])
+        assert.equal(abis[0], abis[1])
+        assert.ok(storage.data.has(`abi-${chainId}-eosio.token`))
+
+        // persisted entry is used without fetching
+        const restored = new LinkChain(chainId, client as any, {abiCache})
+        const abi = await restored.getAbi(transfer.account as any)
+        assert.deepEqual(client.calls, [undefined])
+        assert.ok(ABI.from(abi).equals(client.abi))
+
+        // stale entry is revalidated using its hash
+        const stale = new LinkChain(chainId, client as any, {abiCache, abiCacheTtl: 0})
+        assert.ok(ABI.from(await stale.getAbi(transfer.account as any)).equals(client.abi))
+        assert.deepEqual(client.calls, [undefined, 'beef'])
+
+        // preloaded abis are never fetched
+        const preloaded = new LinkChain(chainId, client as any, {
+            abis: {'eosio.token': client.abi},
+        })
+        assert.equal(await preloaded.getAbi(transfer.account as any), client.abi)
+        assert.equal(client.calls.length, 2)
+    })
+    test('sign in with challenge', async function () {
+        const service = new SignInService({
+            domain: 'app.example.com',
+            contract: 'signin',
+            chainId: 'beefface00000000000000000000000000000000000000000000000000000000',
+            client: manager as any,
+            secret: 'correct horse battery staple',
+            encoding: {scheme: 'proton', zlib},
+        })
+        const challenge = await service.createChallenge()
+        const {challengePayload, payload, session} = await rpcLink.login('test', {
+            challenge: String(challenge),
+        })
+        const result = await service.verify(challengePayload!)
+        assert.ok(result.signer.equals(session.auth))
+        assert.equal(String(manager.lastRequest!.getRawActions()[0].name), 'signin')
+        assert.equal(manager.lastRequest!.data.flags.broadcast, false)
+        // only the signed challenge is accepted, not the identity proof of the login
+        await assert.rejects(service.verify(payload), /Unexpected action/)
+        assert.equal(String(service.verifyToken(result.token).actor), 'foobar')
+    })
+    test('sign requests', async function () {
+        const key = PrivateKey.generate('K1')
+        const signingLink = new Link({
+            chains: [
+                {
+                    nodeUrl: manager as any,
+                    chainId: 'beefface00000000000000000000000000000000000000000000000000000000',
+                },
+            ],
+            transport: manager,
+            service: manager,
+            scheme: 'proton',
+            requestSigner: {signer: 'myapp.xpr', key},
+        })
+        await signingLink.transact({action: transfer}, {broadcast: false})
+        const request = manager.lastRequest!
+        assert.equal(String(request.getSigner()), 'myapp.xpr')
+        assert.ok(request.verifySignature({threshold: 1, keys: [{key: key.toPublic(), weight: 1}]}))
+    })
+    test('simulate before signing', async function () {
+        const failing = {...transfer, data: {...transfer.data, memo: 'fail'}}
+        manager.lastRequest = undefined
+        // placeholders can not be simulated, requests without a session need the signer
+        await assert.rejects(
+            rpcLink.transact({action: transfer}, {simulate: true}),
+            /requires the signer/
+        )
+        try {
+            await rpcLink.transact({actions: [transfer, failing]}, {simulate: manager.signer})
+            assert.fail()
+        } catch (error: any) {
+            assert.equal(error.code, 'E_SIMULATION')
+            assert.equal(error.actionIndex, 1)
+            assert.equal(error.assertion, 'overdrawn balance')
+            assert.deepEqual(error.action, {account: 'eosio.token', name: 'transfer'})
+        }
+        assert.equal(manager.lastRequest, undefined, 'wallet was prompted')
+        const result = await rpcLink.transact(
+            {action: transfer},
+            {simulate: manager.signer, broadcast: false}
+        )
+        assert.equal(String(result.signer), 'foobar@active')
+        // simulations that can not run are skipped
+        for (const path of ['/v1/chain/compute_transaction', '/v1/chain/get_info']) {
+            manager.unavailable = path
+            try {
+                await rpcLink.transact(
+                    {action: failing},
+                    {simulate: manager.signer, broadcast: false}
+                )
+            } finally {
+                manager.unavailable = undefined
+            }
+        }
+    })
+    test('cosign transactions', async function () {
+        const chainId = 'beefface00000000000000000000000000000000000000000000000000000000'
+        const payer = PrivateKey.generate('K1')
+        const cosignLink = new Link({
+            chains: [{nodeUrl: manager as any, chainId}],
+            transport: manager,
+            service: manager,
+            scheme: 'proton',
+            cosigner: new LocalCosigner({privateKey: payer, auth: 'payer@cosign'}),
+        })
+        await assert.rejects(cosignLink.transact({action: transfer}, {cosign: true}), TypeError)
+        const result = await cosignLink.transact({action: transfer}, {cosign: manager.signer})
+        const request = manager.lastRequest!
+        assert.equal(request.getInfoKey('no_modify', 'bool'), true)
+        const [noop, action] = result.resolvedTransaction.actions
+        assert.equal(String(noop.account), 'greymassnoop')
+        assert.equal(String(noop.authorization[0]), 'payer@cosign')
+        assert.equal(String(action.authorization[0]), 'foobar@active')
+        // cosigner signature first, both sign the transaction the wallet resolved
+        const digest = result.transaction.signingDigest(chainId)
+        assert.equal(result.signatures.length, 2)
+        assert.ok(result.signatures[0].verifyDigest(digest, payer.toPublic()))
+        assert.ok(result.signatures[1].verifyDigest(digest, manager.key.toPublic()))
+        // without cosigning the wallet gets the plain request
+        await cosignLink.transact({action: transfer}, {cosign: false})
+        assert.equal(manager.lastRequest!.getInfoKey('cosig'), undefined)
+    })
+    test('lifecycle events', async function () {
+        const events: string[] = []
+        const requests = new Set<SigningRequest>()
+        const names = [
+            'request:created',
+            'request:delivered',
+            'request:recovered',
+            'request:signed',
+            'tx:broadcast',
+            'request:failed',
+        ] as const
+        const offs = names.map((name) =>
+            rpcLink.on(name, (event) => {
+                assert.ok(event.elapsed >= 0)
+                events.push(name)
+                requests.add(event.request)
+            })
+        )
+        let broadcast: LinkEvents['tx:broadcast'] | undefined
+        offs.push(rpcLink.once('tx:broadcast', (event) => (broadcast = event)))
+        const {session} = await rpcLink.login('test')
+        const sessionEvents: string[] = []
+        session.on('request:signed', ({signer, chain}) => {
+            assert.equal(String(signer), 'foobar@active')
+            assert.equal(chain, rpcLink.chains[0])
+            sessionEvents.push('request:signed')
+        })
+        events.length = 0
+        requests.clear()
+        await rpcLink.transact({action: transfer})
+        assert.deepEqual(events, [
+            'request:created',
+            'request:delivered',
+            'request:signed',
+            'tx:broadcast',
+        ])
+        assert.equal(broadcast!.processed!.block_num, 123456790)
+        assert.deepEqual(Array.from(requests), [manager.lastRequest])
+        assert.deepEqual(sessionEvents, [])
+        events.length = 0
+        await session.transact({action: transfer}, {broadcast: false})
+        assert.deepEqual(events, ['request:created', 'request:delivered', 'request:signed'])
+        assert.deepEqual(sessionEvents, ['request:signed'])
+        events.length = 0
+        manager.replay = {rejected: 'nope'}
+        try {
+            await assert.rejects(rpcLink.transact({action: transfer}), /nope/)
+        } finally {
+            manager.replay = undefined
+        }
+        assert.deepEqual(events, ['request:created', 'request:delivered', 'request:failed'])
+        offs.forEach((off) => off())
+    })
+    test('wait for finality', async function () {
+        this.timeout(5000)
+        const blockNums: number[] = []
+        const off = rpcLink.on('tx:irreversible', ({blockNum}) => blockNums.push(blockNum))
+        try {
+            manager.transactionStatus = {state: 'IRREVERSIBLE', block_number: 123456790}
+            let result = await rpcLink.transact({action: transfer}, {waitFor: 'irreversible'})
+            assert.equal(result.blockNum, 123456790)
+            assert.equal(result.irreversible, true)
+            assert.deepEqual(blockNums, [123456790])
+
+            manager.transactionStatus = {state: 'IN_BLOCK', block_number: 123456791}
+            result = await rpcLink.transact({action: transfer}, {waitFor: 'executed'})
+            assert.equal(result.blockNum, 123456791)
+            assert.equal(result.irreversible, false)
+            await assert.rejects(
+                rpcLink.transact({action: transfer}, {waitFor: 'irreversible', waitTimeout: 10}),
+                (error: any) => {
+                    assert.equal(error.code, 'E_FINALITY')
+                    assert.equal(error.reason, 'timeout')
+                    assert.equal(error.result.blockNum, 123456791)
+                    return true
+                }
+            )
+
+            manager.transactionStatus = {state: 'FAILED'}
+            await assert.rejects(
+                rpcLink.transact({action: transfer}, {waitFor: 'executed'}),
+                (error: any) => error.reason === 'dropped'
+            )
+            const later = TimePointSec.fromMilliseconds(expiration.toMilliseconds() + 1000)
+            manager.transactionStatus = {state: 'UNKNOWN', head_timestamp: later}
+            await assert.rejects(
+                rpcLink.transact({action: transfer}, {waitFor: 'executed'}),
+                (error: any) => error.reason === 'expired'
+            )
+
+            // transient errors are retried with the status api
+            manager.statusFailures = 1
+            manager.transactionStatus = {state: 'IN_BLOCK', block_number: 123456792}
+            result = await rpcLink.transact({action: transfer}, {waitFor: 'executed'})
+            assert.equal(result.blockNum, 123456792)
+            assert.equal(manager.statusFailures, 0)
+
+            // falls back to history api
+            manager.transactionStatus = undefined
+            result = await rpcLink.transact({action: transfer}, {waitFor: 'irreversible'})
+            assert.equal(result.irreversible, true)
+            assert.equal(blockNums.length, 2)
+        } finally {
+            manager.transactionStatus = undefined
+            off()
+        }
+    })
+    test('request queue', async function () {
+        this.timeout(5000)
+        const {session} = await rpcLink.login('test')
+        // sessions share the queue of the transport they deliver through
+        const first = session.transact({action: transfer})
+        const second = session.transact({action: transfer})
+        const third = rpcLink.transact({action: transfer})
+        assert.equal(rpcLink.queueLength(), 2)
+        assert.equal(session.queueLength, 1)
+        assert.equal(session.cancelQueued(), 1)
+        await assert.rejects(second, (error) => isLinkError(error, 'E_CANCEL'))
+        await Promise.all([first, third])
+        assert.equal(rpcLink.queueLength(), 0)
+
+        // the queue is released once the wallet responded, finality is awaited outside of it
+        manager.transactionStatus = {state: 'IN_BLOCK', block_number: 123456791}
+        try {
+            const settled: string[] = []
+            const waiting = session
+                .transact({action: transfer}, {waitFor: 'irreversible', waitTimeout: 500})
+                .catch((error) => settled.push(error.code))
+            const next = session.transact({action: transfer}).then(() => settled.push('next'))
+            assert.equal(session.queueLength, 1)
+            await Promise.all([waiting, next])
+            assert.deepEqual(settled, ['next', 'E_FINALITY'])
+        } finally {
+            manager.transactionStatus = undefined
+        }
+    })
+    test('multiple chains', async function () {
+        const mainnet = 'beefface00000000000000000000000000000000000000000000000000000000'
+        const testnet = '71ee83bcf52142d61019d95f9cc5427ba6a0d7ff8accd9e2088ae2abeaf3d3dd'
+        const multiLink = new Link({
+            chains: [
+                {nodeUrl: manager as any, chainId: mainnet},
+                {nodeUrl: manager as any, chainId: testnet, scheme: 'proton-dev'},
+            ],
+            transport: manager,
+            service: manager,
+            storage: new MemoryStorage(),
+            scheme: 'proton',
+        })
+        assert.equal(multiLink.activeChain, undefined)
+        const {session: mainSession} = await multiLink.login('test', {chain: mainnet})
+        assert.equal(String(mainSession.chainId), mainnet)
+        assert.ok(manager.lastRequest!.encode().startsWith('proton:'))
+
+        // switch chains without a new link
+        assert.equal(multiLink.setActiveChain(testnet), multiLink.chains[1])
+        const {session: testSession} = await multiLink.login('test')
+        assert.equal(String(testSession.chainId), testnet)
+        assert.ok(manager.lastRequest!.encode().startsWith('proton-dev:'))
+        const result = await multiLink.transact({action: transfer}, {broadcast: false})
+        assert.equal(result.chain, multiLink.chains[1])
+        assert.equal(multiLink.client, multiLink.chains[1].client)
+        const mainResult = await mainSession.transact({action: transfer}, {broadcast: false})
+        assert.equal(String(mainResult.chain.chainId), mainnet)
+
+        const groups = await multiLink.listSessionsByChain('test')
+        assert.deepEqual(Object.keys(groups), [mainnet, testnet])
+        assert.equal(String(groups[mainnet][0].auth), 'foobar@active')
+        assert.equal((await multiLink.listSessions('test', testnet)).length, 1)
+
+        // responses are checked against the chain of the request, not the active chain
+        multiLink.setActiveChain(mainnet)
+        const off = multiLink.once('request:delivered', () => multiLink.setActiveChain(testnet))
+        const switched = await multiLink.transact({action: transfer}, {broadcast: false})
+        off()
+        assert.equal(String(switched.chain.chainId), mainnet)
+        assert.equal(multiLink.activeChain, multiLink.chains[1])
+
+        // restores the session of the active chain
+        multiLink.setActiveChain(mainnet)
+        assert.equal(String((await multiLink.restoreSession('test'))!.chainId), mainnet)
+        multiLink.setActiveChain(null)
+        assert.equal(multiLink.activeChain, undefined)
+        assert.equal(String((await multiLink.restoreSession('test'))!.chainId), mainnet)
+    })
+    test('session policies', async function () {
+        const storage = new MemoryStorage()
+        let undeliverable = false
+        const policyLink = new Link({
+            chains: [
+                {
+                    nodeUrl: manager as any,
+                    chainId: 'beefface00000000000000000000000000000000000000000000000000000000',
+                },
+            ],
+            transport: {
+                onRequest(request, cancel) {
+                    manager.onRequest(request, cancel)
+                    if (undeliverable) {
+                        cancel(new SessionError('Unable to push message', 'E_DELIVERY', {} as any))
+                    }
+                },
+            },
+            service: manager,
+            storage,
+            scheme: 'proton',
+            sessionPolicy: {
+                maxAge: 60 * 60 * 1000,
+                idleTimeout: 10 * 60 * 1000,
+                maxDeliveryFailures: 2,
+                verifyKey: true,
+            },
+        })
+        const expired: LinkEvents['session:expired'][] = []
+        policyLink.on('session:expired', (event) => expired.push(event))
+        const backdate = (field: 'created' | 'used', ms: number) => {
+            const list = JSON.parse(storage.data.get('test-list')!)
+            list[0][field] -= ms
+            storage.data.set('test-list', JSON.stringify(list))
+        }
+        const tick = () => new Promise((resolve) => setTimeout(resolve, 10))
+
+        await policyLink.login('test')
+        assert.ok(await policyLink.restoreSession('test'))
+        backdate('used', 11 * 60 * 1000)
+        assert.equal(await policyLink.restoreSession('test'), null)
+        assert.deepEqual((await policyLink.listSessions('test')).length, 0)
+
+        await policyLink.login('test')
+        backdate('created', 61 * 60 * 1000)
+        assert.equal(await policyLink.restoreSession('test'), null)
+
+        await policyLink.login('test')
+        const keys = manager.account.permissions[0].required_auth.keys
+        manager.account.permissions[0].required_auth.keys = []
+        try {
+            assert.equal(await policyLink.restoreSession('test'), null)
+        } finally {
+            manager.account.permissions[0].required_auth.keys = keys
+        }
+
+        const {session} = await policyLink.login('test')
+        undeliverable = true
+        for (let i = 0; i < 2; i++) {
+            await assert.rejects(session.transact({action: transfer}), (error: any) =>
+                isLinkError(error, 'E_DELIVERY')
+            )
+            await tick()
+        }
+        assert.deepEqual(
+            expired.map(({reason}) => reason),
+            ['idle', 'expired', 'revoked', 'undeliverable']
+        )
+        assert.equal(expired[3].session, session)
+        assert.equal(await policyLink.restoreSession('test'), null)
+    })
+    test('transaction history', async function () {
+        const storage = new MemoryStorage()
+        const historyLink = new Link({
+            chains: [
+                {
+                    nodeUrl: manager as any,
+                    chainId: 'beefface00000000000000000000000000000000000000000000000000000000',
+                },
+            ],
+            transport: manager,
+            service: manager,
+            storage,
+            scheme: 'proton',
+            history: {maxEntries: 2},
+        })
+        const tick = () => new Promise((resolve) => setTimeout(resolve, 10))
+        const memo = (text: string) => ({...transfer, data: {...transfer.data, memo: text}})
+        const {session} = await historyLink.login('test')
+        await session.transact({action: memo('one')}, {broadcast: false})
+        await session.transact({action: memo('two')})
+        const pushTransaction = manager.push_transaction
+        manager.push_transaction = async () => {
+            throw new Error('Failed to fetch')
+        }
+        try {
+            await assert.rejects(session.transact({action: memo('three')}), /Failed to fetch/)
+        } finally {
+            manager.push_transaction = pushTransaction
+        }
+        // not signed with a session
+        await historyLink.transact({action: transfer})
+        await tick()
+        const history = await session.getHistory()
+        assert.deepEqual(
+            history.map(({status}) => status),
+            ['failed', 'broadcast']
+        )
+        assert.deepEqual(history[0].error, {code: 'E_RPC', message: 'Failed to fetch'})
+        assert.equal(history[1].signer, 'foobar@active')
+        assert.deepEqual(history[1].actions, [
+            {
+                account: 'eosio.token',
+                name: 'transfer',
+                text: 'Transfer 1.0000 EOS from foobar to teamgreymass, memo: two',
+            },
+        ])
+        const [broadcast] = await session.getHistory({status: 'broadcast', limit: 1})
+        assert.deepEqual(broadcast, history[1])
+        await session.remove()
+        assert.deepEqual(await historyLink.getHistory(session), [])
+        await assert.rejects(link.getHistory(session), /not enabled/)
+    })
     test('abort from wallet', async function () {
         try {
             await link.login('abort')
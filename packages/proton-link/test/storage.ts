@@ -0,0 +1,62 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {EncryptedLinkStorage, isLinkError, LinkStorage} from '../src'
+
+class MemoryStorage implements LinkStorage {
+    data: Record<string, string> = {}
+    async write(key: string, data: string) {
+        this.data[key] = data
+    }
+    async read(key: string) {
+        return this.data[key] !== undefined ? this.data[key] : null
+    }
+    async remove(key: string) {
+        delete this.data[key]
+    }
+}
+
+const key = '5a1d4c2b9e8f7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b'
+const otherKey = '0000000000000000000000000000000000000000000000000000000000000001'
+
+suite('storage', function () {
+    test('encrypt values', async function () {
+        const backend = new MemoryStorage()
+        const storage = new EncryptedLinkStorage(backend, {key})
+        await storage.write('session', '{"requestKey":"PVT_K1_secret"}')
+        assert.ok(backend.data.session.startsWith('enc1:'))
+        assert.ok(!backend.data.session.includes('secret'))
+        assert.equal(await storage.read('session'), '{"requestKey":"PVT_K1_secret"}')
+        assert.equal(await storage.read('missing'), null)
+        // values are bound to their key
+        backend.data.other = backend.data.session
+        await assert.rejects(storage.read('other'), (error) => isLinkError(error, 'E_STORAGE_KEY'))
+        await storage.remove('session')
+        assert.equal(backend.data.session, undefined)
+    })
+
+    test('migrate plaintext', async function () {
+        const backend = new MemoryStorage()
+        backend.data.session = '{"requestKey":"PVT_K1_secret"}'
+        const storage = new EncryptedLinkStorage(backend, {key})
+        assert.equal(await storage.read('session'), '{"requestKey":"PVT_K1_secret"}')
+        assert.ok(backend.data.session.startsWith('enc1:'))
+        assert.equal(await storage.read('session'), '{"requestKey":"PVT_K1_secret"}')
+    })
+
+    test('lost key', async function () {
+        const backend = new MemoryStorage()
+        await new EncryptedLinkStorage(backend, {key}).write('session', 'hello')
+        const other = new EncryptedLinkStorage(backend, {key: otherKey})
+        await assert.rejects(other.read('session'), (error) => isLinkError(error, 'E_STORAGE_KEY'))
+        assert.ok(backend.data.session)
+        const removing = new EncryptedLinkStorage(backend, {key: otherKey, onKeyLost: 'remove'})
+        assert.equal(await removing.read('session'), null)
+        assert.equal(backend.data.session, undefined)
+    })
+
+    test('require a key without indexeddb', async function () {
+        const storage = new EncryptedLinkStorage(new MemoryStorage())
+        await assert.rejects(storage.write('session', 'hello'), /IndexedDB is not available/)
+    })
+})
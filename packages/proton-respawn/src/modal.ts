@@ -1,4 +1,5 @@
 import {mount, unmount} from 'svelte'
+import {CancelError, isLinkError} from '@proton/link'
 import type {LinkSession} from '@proton/link'
 import type {RespawnConfig, RespawnResult, RespawnStatus} from './types'
 import {checkRespawnStatus, recordFreeAccess, payForAccess} from './respawn'
@@ -8,7 +9,7 @@ import RespawnModal from './ui/RespawnModal.svelte'
  * Mount and show the respawn modal, then execute the chosen on-chain action.
  *
  * Returns a RespawnResult once the user completes (or dismisses) the flow.
- * If the user closes the modal without choosing, the promise rejects with 'cancelled'.
+ * If the user closes the modal without choosing, the promise rejects with a CancelError (E_CANCEL).
  *
  * @param session - Active LinkSession from @proton/link
  * @param config  - RespawnConfig describing the on-chain contracts/actions
@@ -38,7 +39,7 @@ export async function showRespawnModal(
 
     const onClose = () => {
       cleanup()
-      reject(new Error('cancelled'))
+      reject(new CancelError('cancelled'))
     }
 
     const onChoose = async (option: 'wait' | 'pay') => {
@@ -56,7 +57,12 @@ export async function showRespawnModal(
         }
       } catch (err: unknown) {
         const message = err instanceof Error ? err.message : String(err)
-        resolve({option, success: false, error: message})
+        resolve({
+          option,
+          success: false,
+          error: message,
+          errorCode: isLinkError(err) ? err.code : undefined,
+        })
       }
     }
 
@@ -1,3 +1,5 @@
+import type {LinkErrorCode} from '@proton/link'
+
 export interface RespawnConfig {
   /**
    * Account name of the smart contract that tracks per-user last-access timestamps.
@@ -107,4 +109,6 @@ export interface RespawnResult {
   transactResult?: unknown
   /** Error message if success is false */
   error?: string
+  /** Code of the error if it is a LinkError, e.g. 'E_ASSERTION' or 'E_CANCEL' */
+  errorCode?: LinkErrorCode
 }
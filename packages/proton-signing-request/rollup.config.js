@@ -58,6 +58,30 @@ export default [
         external: Object.keys({...pkg.dependencies, ...pkg.peerDependencies}),
         onwarn,
     },
+    {
+        input: 'src/cli.ts',
+        output: {
+            banner: '#!/usr/bin/env node',
+            file: pkg.bin['esr-inspect'],
+            format: 'esm',
+            sourcemap: !production,
+        },
+        plugins: [typescript({target: 'es6', sourceMap: !production})],
+        external: [...Object.keys({...pkg.dependencies}), 'fs', 'path', 'zlib'],
+        onwarn,
+    },
+    {
+        input: 'src/codegen-cli.ts',
+        output: {
+            banner: '#!/usr/bin/env node',
+            file: pkg.bin['esr-codegen'],
+            format: 'esm',
+            sourcemap: !production,
+        },
+        plugins: [typescript({target: 'es6', sourceMap: !production})],
+        external: [...Object.keys({...pkg.dependencies}), 'fs', 'path'],
+        onwarn,
+    },
     {
         input: 'src/index.ts',
         output: {banner, file: pkg.types, format: 'esm'},
@@ -100,3 +100,9 @@ export class RequestSignature extends Struct {
     @Struct.field('name') signer!: Name
     @Struct.field('signature') signature!: Signature
 }
+
+@Struct.type('signing_request_batch')
+export class RequestBatchData extends Struct {
+    /** Encoded requests, each prefixed with its uncompressed protocol header. */
+    @Struct.field('bytes', {array: true}) requests!: Bytes[]
+}
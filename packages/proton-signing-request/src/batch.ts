@@ -0,0 +1,320 @@
+/** Batches of independent signing requests encoded in a single uri. */
+
+import {
+    ABI,
+    Bytes,
+    BytesType,
+    Name,
+    PermissionLevelType,
+    Serializer,
+    SignatureType,
+    UInt32Type,
+} from '@greymass/eosio'
+
+import * as base64u from './base64u'
+import {RequestBatchData} from './abi'
+import {
+    AbiMap,
+    AbiProvider,
+    CallbackPayload,
+    DEFAULT_SCHEME,
+    ResolvedCallback,
+    ResolvedSigningRequest,
+    SigningRequest,
+    SigningRequestEncodingOptions,
+    TransactionContext,
+    ZlibProvider,
+} from './signing-request'
+
+/** Protocol version of the batch container, the contained requests carry their own version. */
+export const BatchProtocolVersion = 3
+
+/** Header bit marking the uri as a batch of requests. */
+const BatchFlag = 1 << 6
+
+/** Header bit marking the payload as compressed. */
+const CompressionFlag = 1 << 7
+
+/**
+ * A bundle of independent signing requests, each resolving to its own transaction.
+ * Lets a wallet sign several transactions in one round-trip, every request keeps
+ * its own callback and the callback payloads carry the index of the request (`bi`).
+ */
+export class SigningRequestBatch {
+    /**
+     * Create a batch from signing requests.
+     * @throws If the batch is empty or contains identity requests.
+     */
+    public static create(
+        requests: SigningRequest[],
+        options: SigningRequestEncodingOptions = {scheme: DEFAULT_SCHEME}
+    ) {
+        if (requests.length === 0) {
+            throw new TypeError('Invalid batch: Must contain at least one request')
+        }
+        if (requests.some((request) => request.isIdentity())) {
+            throw new TypeError('Invalid batch: Identity requests can not be batched')
+        }
+        return new SigningRequestBatch(requests, options.scheme, options.zlib, options.abiProvider)
+    }
+
+    /** Whether given uri is a batch, i.e. should be decoded using [[SigningRequestBatch.from]]. */
+    public static isBatch(uri: string) {
+        if (typeof uri !== 'string') {
+            return false
+        }
+        const path = uri.split(':')[1] || ''
+        const data = base64u.decode(path.startsWith('//') ? path.slice(2) : path)
+        return data.length > 0 && (data[0] & BatchFlag) !== 0
+    }
+
+    /** Creates a batch from an encoded uri string. */
+    public static from(
+        uri: string,
+        options: SigningRequestEncodingOptions = {scheme: DEFAULT_SCHEME}
+    ) {
+        if (typeof uri !== 'string') {
+            throw new Error('Invalid request uri')
+        }
+        const [scheme, path] = uri.split(':')
+        if (
+            scheme !== (options.scheme || DEFAULT_SCHEME) &&
+            scheme !== `web+${options.scheme || DEFAULT_SCHEME}`
+        ) {
+            throw new Error('Invalid scheme')
+        }
+        const payload = path && path.startsWith('//') ? path.slice(2) : path
+        if (!payload) {
+            throw new Error('Invalid request uri: Missing payload')
+        }
+        return SigningRequestBatch.fromData(base64u.decode(payload), options)
+    }
+
+    public static fromData(
+        data: BytesType,
+        options: SigningRequestEncodingOptions = {scheme: DEFAULT_SCHEME}
+    ) {
+        data = Bytes.from(data)
+        const header = data.array[0]
+        if ((header & BatchFlag) === 0) {
+            throw new Error('Not a batch request, decode using SigningRequest')
+        }
+        const version = header & ~(BatchFlag | CompressionFlag)
+        if (version !== BatchProtocolVersion) {
+            throw new Error(`Unsupported batch protocol version ${version}`)
+        }
+        let payload = data.droppingFirst(1)
+        if ((header & CompressionFlag) !== 0) {
+            if (!options.zlib) {
+                throw new Error('Compressed URI needs zlib')
+            }
+            payload = Bytes.from(options.zlib.inflateRaw(payload.array))
+        }
+        const batch = Serializer.decode({data: payload, type: RequestBatchData})
+        const requests = batch.requests.map((entry) => SigningRequest.fromData(entry, options))
+        return new SigningRequestBatch(requests, options.scheme, options.zlib, options.abiProvider)
+    }
+
+    /** The requests in this batch. */
+    public readonly requests: SigningRequest[]
+    public scheme: SigningRequestEncodingOptions['scheme'] = DEFAULT_SCHEME
+
+    private zlib?: ZlibProvider
+    private abiProvider?: AbiProvider
+
+    /**
+     * Create a new batch.
+     * Normally not used directly, see the `create` and `from` class methods.
+     */
+    constructor(
+        requests: SigningRequest[],
+        scheme: SigningRequestEncodingOptions['scheme'],
+        zlib?: ZlibProvider,
+        abiProvider?: AbiProvider
+    ) {
+        this.requests = requests
+        this.scheme = scheme || this.scheme
+        this.zlib = zlib
+        this.abiProvider = abiProvider
+    }
+
+    /**
+     * Encode this batch into an uri.
+     * @argument compress Whether to compress the batch using zlib,
+     *                    defaults to true if omitted and zlib is present;
+     *                    otherwise false.
+     * @argument slashes Whether add slashes after the protocol scheme, i.e. `esr://`.
+     *                   Defaults to true.
+     */
+    public encode(compress?: boolean, slashes?: boolean): string {
+        const shouldCompress = compress !== undefined ? compress : this.zlib !== undefined
+        if (shouldCompress && this.zlib === undefined) {
+            throw new Error('Need zlib to compress')
+        }
+        let header = BatchProtocolVersion | BatchFlag
+        let array = this.getData()
+        if (shouldCompress) {
+            const deflated = this.zlib!.deflateRaw(array)
+            if (array.byteLength > deflated.byteLength) {
+                header |= CompressionFlag
+                array = deflated
+            }
+        }
+        const out = new Uint8Array(1 + array.byteLength)
+        out[0] = header
+        out.set(array, 1)
+        let scheme = `${this.scheme}:`
+        if (slashes !== false) {
+            scheme += '//'
+        }
+        return scheme + base64u.encode(out)
+    }
+
+    /** Get the batch data without header. */
+    public getData(): Uint8Array {
+        const requests = this.requests.map((request) =>
+            Bytes.from([request.version])
+                .appending(request.getData())
+                .appending(request.getSignatureData())
+        )
+        return Serializer.encode({object: RequestBatchData.from({requests})}).array
+    }
+
+    /** ABI definitions required to resolve all requests in the batch. */
+    public getRequiredAbis() {
+        const accounts: Name[] = []
+        for (const request of this.requests) {
+            for (const account of request.getRequiredAbis()) {
+                if (!accounts.some((existing) => existing.equals(account))) {
+                    accounts.push(account)
+                }
+            }
+        }
+        return accounts
+    }
+
+    /** Resolve required ABI definitions for all requests. */
+    public async fetchAbis(abiProvider?: AbiProvider): Promise<AbiMap> {
+        const abis: AbiMap = new Map()
+        const required = this.getRequiredAbis()
+        if (required.length > 0) {
+            const provider = abiProvider || this.abiProvider
+            if (!provider) {
+                throw new Error('Missing ABI provider')
+            }
+            await Promise.all(
+                required.map(async (account) => {
+                    abis.set(String(account), ABI.from(await provider.getAbi(account)))
+                })
+            )
+        }
+        return abis
+    }
+
+    /**
+     * Resolve all requests in the batch, see [[SigningRequest.resolve]].
+     * The same transaction context is used for every request.
+     */
+    public resolve(abis: AbiMap, signer: PermissionLevelType, ctx: TransactionContext = {}) {
+        return new ResolvedSigningRequestBatch(
+            this,
+            this.requests.map((request) => request.resolve(abis, signer, ctx))
+        )
+    }
+
+    /**
+     * Return the index of the request a callback payload belongs to.
+     * @throws If the payload does not belong to any request in this batch.
+     */
+    public getRequestIndex(payload: CallbackPayload) {
+        const data = Bytes.from(
+            SigningRequest.from(payload.req, {scheme: this.scheme, zlib: this.zlib}).getData()
+        )
+        const matches = (index: number) =>
+            this.requests[index] !== undefined && data.equals(this.requests[index].getData())
+        if (payload.bi !== undefined) {
+            const index = Number(payload.bi)
+            if (!matches(index)) {
+                throw new Error(`Callback payload does not match batch request ${payload.bi}`)
+            }
+            return index
+        }
+        const index = this.requests.findIndex((_, idx) => matches(idx))
+        if (index === -1) {
+            throw new Error('Callback payload does not belong to batch')
+        }
+        return index
+    }
+
+    // Convenience methods.
+
+    public toString() {
+        return this.encode()
+    }
+
+    public toJSON() {
+        return this.encode()
+    }
+}
+
+export class ResolvedSigningRequestBatch {
+    /**
+     * Recreate a resolved batch from the callback payloads of its requests.
+     * Payloads can be given in any order, they are matched to their request
+     * using the batch index and the originating request.
+     * @throws If a payload is missing, duplicated or does not belong to the batch.
+     */
+    static async fromPayloads(
+        batch: SigningRequestBatch,
+        payloads: CallbackPayload[],
+        options: SigningRequestEncodingOptions = {scheme: DEFAULT_SCHEME}
+    ): Promise<ResolvedSigningRequestBatch> {
+        if (payloads.length !== batch.requests.length) {
+            throw new Error(
+                `Expected ${batch.requests.length} callback payloads, got ${payloads.length}`
+            )
+        }
+        const resolved: ResolvedSigningRequest[] = []
+        for (const payload of payloads) {
+            const index = batch.getRequestIndex(payload)
+            if (resolved[index]) {
+                throw new Error(`Duplicate callback payload for batch request ${index}`)
+            }
+            resolved[index] = await ResolvedSigningRequest.fromPayload(payload, options)
+        }
+        return new ResolvedSigningRequestBatch(batch, resolved)
+    }
+
+    /** The batch that created the transactions. */
+    public readonly batch: SigningRequestBatch
+    /** The resolved requests, in batch order. */
+    public readonly requests: ResolvedSigningRequest[]
+
+    constructor(batch: SigningRequestBatch, requests: ResolvedSigningRequest[]) {
+        this.batch = batch
+        this.requests = requests
+    }
+
+    /**
+     * Resolve the callbacks for all requests in the batch, see [[ResolvedSigningRequest.getCallback]].
+     * @param signatures Signatures for each request, in batch order.
+     * @param blockNums Block number hints for each request, if broadcast.
+     */
+    public getCallbacks(
+        signatures: SignatureType[][],
+        blockNums: (UInt32Type | undefined)[] = []
+    ): (ResolvedCallback | null)[] {
+        if (signatures.length !== this.requests.length) {
+            throw new Error(
+                `Expected signatures for ${this.requests.length} requests, got ${signatures.length}`
+            )
+        }
+        return this.requests.map((resolved, index) => {
+            const callback = resolved.getCallback(signatures[index], blockNums[index])
+            if (callback) {
+                callback.payload.bi = String(index)
+            }
+            return callback
+        })
+    }
+}
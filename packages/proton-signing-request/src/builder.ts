@@ -0,0 +1,209 @@
+/** Fluent construction of signing requests. */
+
+import {
+    ABIDef,
+    ABISerializable,
+    AnyAction,
+    Bytes,
+    PermissionLevelType,
+    TimePointSec,
+} from '@greymass/eosio'
+
+import type {ChainIdType} from './chain-id'
+import {
+    CallbackType,
+    SigningRequest,
+    SigningRequestCreateArguments,
+    SigningRequestEncodingOptions,
+} from './signing-request'
+
+/** Info keys managed by the builder, can not be set using [[SigningRequestBuilder.info]]. */
+const reservedInfoKeys: Record<string, string> = {
+    chain_ids: 'chains()',
+    expiration: 'expireIn()',
+}
+
+/**
+ * Builder for signing requests, validates the request as it's being
+ * constructed and produces the same request as [[SigningRequest.create]].
+ *
+ * ```ts
+ * const request = await new SigningRequestBuilder()
+ *     .chain('proton')
+ *     .action(transfer)
+ *     .callback('https://example.com/callback?tx={{tx}}', true)
+ *     .build(options)
+ * ```
+ */
+export class SigningRequestBuilder {
+    private chainId?: ChainIdType | null
+    private chainIds?: ChainIdType[]
+    private requestActions: AnyAction[] = []
+    private identityArgs?: {permission?: PermissionLevelType}
+    private callbackArgs?: CallbackType
+    private broadcastFlag?: boolean
+    private infoPairs: {[key: string]: Bytes | ABISerializable} = {}
+    private expireSeconds?: number
+
+    /**
+     * Set the chain the request is for, pass `null` to create a multi-chain
+     * request that can be signed on any chain. Defaults to EOS if never called.
+     */
+    chain(chainId: ChainIdType | null) {
+        if (this.chainIds && chainId !== null) {
+            throw new TypeError(
+                'Invalid request: Can not set a chain id when chains() has been used, use chain(null) for multi-chain requests'
+            )
+        }
+        this.chainId = chainId
+        return this
+    }
+
+    /**
+     * Constrain a multi-chain request to the given chains,
+     * implies `chain(null)` if no chain has been set.
+     */
+    chains(chainIds: ChainIdType[]) {
+        if (this.chainId) {
+            throw new TypeError(
+                'Invalid request: Can not constrain chains when a chain id has been set, use chain(null) for multi-chain requests'
+            )
+        }
+        if (chainIds.length === 0) {
+            throw new TypeError('Invalid request: chains() needs at least one chain id')
+        }
+        this.chainId = null
+        this.chainIds = chainIds
+        return this
+    }
+
+    /** Add an action to the request. */
+    action(action: AnyAction) {
+        if (this.identityArgs) {
+            throw new TypeError('Invalid request: Identity requests can not contain actions')
+        }
+        this.requestActions.push(action)
+        return this
+    }
+
+    /** Add multiple actions to the request. */
+    actions(actions: AnyAction[]) {
+        for (const action of actions) {
+            this.action(action)
+        }
+        return this
+    }
+
+    /**
+     * Make this an identity request.
+     * @param permission The requested permission, any permission if omitted.
+     */
+    identity(permission?: PermissionLevelType) {
+        if (this.requestActions.length > 0) {
+            throw new TypeError('Invalid request: Identity requests can not contain actions')
+        }
+        if (this.broadcastFlag) {
+            throw new TypeError('Invalid request: Identity requests can not be broadcast')
+        }
+        this.identityArgs = permission ? {permission} : {}
+        return this
+    }
+
+    /**
+     * Set the callback the signer should hit after signing or broadcasting.
+     * @param url Callback url, can contain templated values like `{{tx}}`.
+     * @param background Whether the callback should be sent in the background.
+     */
+    callback(url: string, background?: boolean) {
+        if (!url) {
+            throw new TypeError(
+                background
+                    ? 'Invalid request: Background flag set without a callback url'
+                    : 'Invalid request: Callback url can not be empty'
+            )
+        }
+        this.callbackArgs = background !== undefined ? {url, background} : url
+        return this
+    }
+
+    /** Set a metadata key on the request, strings are encoded as utf8. */
+    info(key: string, value: Bytes | ABISerializable) {
+        if (reservedInfoKeys[key]) {
+            throw new TypeError(
+                `Invalid request: Info key ${key} is reserved, use ${reservedInfoKeys[key]} instead`
+            )
+        }
+        this.infoPairs[key] = value
+        return this
+    }
+
+    /** Set the request to expire a number of seconds after it's built. */
+    expireIn(seconds: number) {
+        if (!Number.isFinite(seconds) || seconds <= 0) {
+            throw new TypeError(`Invalid request: Expiry must be a positive number, got ${seconds}`)
+        }
+        this.expireSeconds = seconds
+        return this
+    }
+
+    /** Set whether the signer should broadcast the transaction, defaults to true. */
+    broadcast(broadcast = true) {
+        if (broadcast && this.identityArgs) {
+            throw new TypeError('Invalid request: Identity requests can not be broadcast')
+        }
+        this.broadcastFlag = broadcast
+        return this
+    }
+
+    /**
+     * Return the arguments that would be passed to [[SigningRequest.create]].
+     * @param now Time used to compute the expiration, defaults to current time.
+     * @throws If the request is incomplete.
+     */
+    toArguments(now = new Date()): SigningRequestCreateArguments {
+        const args: SigningRequestCreateArguments = {}
+        if (this.identityArgs) {
+            args.identity = this.identityArgs
+        } else if (this.requestActions.length > 0) {
+            args.actions = [...this.requestActions]
+        } else {
+            throw new TypeError(
+                'Invalid request: Must have at least one action or be an identity request'
+            )
+        }
+        if (this.chainId !== undefined) {
+            args.chainId = this.chainId
+        }
+        if (this.chainIds) {
+            args.chainIds = this.chainIds
+        }
+        if (this.callbackArgs !== undefined) {
+            args.callback = this.callbackArgs
+        }
+        if (this.broadcastFlag !== undefined) {
+            args.broadcast = this.broadcastFlag
+        }
+        if (Object.keys(this.infoPairs).length > 0) {
+            args.info = {...this.infoPairs}
+        }
+        if (this.expireSeconds !== undefined) {
+            args.expiration = TimePointSec.fromMilliseconds(
+                now.getTime() + this.expireSeconds * 1000
+            )
+        }
+        return args
+    }
+
+    /** Build the request, see [[SigningRequest.create]]. */
+    build(options?: SigningRequestEncodingOptions) {
+        return SigningRequest.create(this.toArguments(), options)
+    }
+
+    /**
+     * Synchronously build the request, see [[SigningRequest.createSync]].
+     * @throws If an un-encoded action with no abi def is encountered.
+     */
+    buildSync(options?: SigningRequestEncodingOptions, abis?: Record<string, ABIDef>) {
+        return SigningRequest.createSync(this.toArguments(), options, abis)
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * Command-line tool for decoding signing request URIs.
+ *
+ * Usage: esr-inspect [--abis <dir>] [--signer <actor@permission>] [--json] <uri>
+ */
+
+import {readdirSync, readFileSync} from 'fs'
+import {join as joinPath} from 'path'
+import {deflateRawSync, inflateRawSync} from 'zlib'
+import {ABI} from '@greymass/eosio'
+
+import {formatInspection, inspectRequest} from './inspect'
+import type {AbiMap, ZlibProvider} from './signing-request'
+
+const usage = `Usage: esr-inspect [options] <uri>
+
+Decode a signing request uri and print its contents.
+
+Options:
+  --abis <dir>       Directory of ABI JSON files named <account>.json, used to
+                     decode and describe the request actions.
+  --signer <auth>    Resolve placeholders for signer, e.g. alice@active.
+                     Only used together with --abis.
+  --json             Output JSON instead of text.
+  -h, --help         Show this help.
+`
+
+const zlib: ZlibProvider = {
+    deflateRaw: (data) => new Uint8Array(deflateRawSync(Buffer.from(data))),
+    inflateRaw: (data) => new Uint8Array(inflateRawSync(Buffer.from(data))),
+}
+
+interface CliArgs {
+    uri?: string
+    abis?: string
+    signer?: string
+    json: boolean
+    help: boolean
+}
+
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = {json: false, help: false}
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]
+        switch (arg) {
+            case '--abis':
+            case '--signer': {
+                const value = argv[++i]
+                if (value === undefined) {
+                    throw new Error(`Missing value for ${arg}`)
+                }
+                args[arg.slice(2)] = value
+                break
+            }
+            case '--json':
+                args.json = true
+                break
+            case '-h':
+            case '--help':
+                args.help = true
+                break
+            default:
+                if (arg.startsWith('-')) {
+                    throw new Error(`Unknown option: ${arg}`)
+                }
+                if (args.uri) {
+                    throw new Error('Only one uri can be inspected at a time')
+                }
+                args.uri = arg
+        }
+    }
+    return args
+}
+
+/**
+ * Load all ABIs in directory, files are named after the contract account.
+ * Accepts both raw ABI definitions and `get_abi` responses.
+ */
+function loadAbis(dir: string): AbiMap {
+    const abis: AbiMap = new Map()
+    for (const file of readdirSync(dir)) {
+        if (!file.endsWith('.json')) {
+            continue
+        }
+        const json = JSON.parse(readFileSync(joinPath(dir, file)).toString('utf8'))
+        abis.set(file.slice(0, -5), ABI.from(json.abi || json))
+    }
+    return abis
+}
+
+function parseSigner(value: string) {
+    const [actor, permission] = value.split('@')
+    if (!actor || !permission) {
+        throw new Error(`Invalid signer, expected actor@permission: ${value}`)
+    }
+    return {actor, permission}
+}
+
+function main(argv: string[]) {
+    let args: CliArgs
+    try {
+        args = parseArgs(argv)
+    } catch (error) {
+        process.stderr.write(`${(error as Error).message}\n\n${usage}`)
+        return 2
+    }
+    if (args.help) {
+        process.stdout.write(usage)
+        return 0
+    }
+    if (!args.uri) {
+        process.stderr.write(usage)
+        return 2
+    }
+    try {
+        const inspection = inspectRequest(args.uri.trim(), {
+            zlib,
+            abis: args.abis ? loadAbis(args.abis) : undefined,
+            signer: args.signer ? parseSigner(args.signer) : undefined,
+        })
+        if (args.json) {
+            process.stdout.write(JSON.stringify(inspection, null, 2) + '\n')
+        } else {
+            process.stdout.write(formatInspection(inspection) + '\n')
+        }
+        return 0
+    } catch (error) {
+        process.stderr.write(`Error: ${(error as Error).message || String(error)}\n`)
+        return 1
+    }
+}
+
+process.exitCode = main(process.argv.slice(2))
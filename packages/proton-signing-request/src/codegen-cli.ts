@@ -0,0 +1,107 @@
+/**
+ * Command-line tool generating TypeScript types and action builders from contract ABIs.
+ *
+ * Usage: esr-codegen [--out <dir>] [--account <name>] [--import <module>] <abi.json...>
+ */
+
+import {mkdirSync, readFileSync, writeFileSync} from 'fs'
+import {basename, join as joinPath} from 'path'
+
+import {generateContractTypes} from './codegen'
+
+const usage = `Usage: esr-codegen [options] <abi.json...>
+
+Generate TypeScript types and action builders from contract ABI files.
+Files are named after the contract account, e.g. eosio.token.json, and contain
+an ABI definition or a get_abi response.
+
+Options:
+  --out <dir>         Write <account>.ts for every ABI to directory, otherwise
+                      the module is written to stdout (one ABI only).
+  --account <name>    Contract account, defaults to the account of the get_abi
+                      response or the file name (one ABI only).
+  --import <module>   Module to import types from, defaults to @greymass/eosio.
+  -h, --help          Show this help.
+`
+
+interface CliArgs {
+    files: string[]
+    out?: string
+    account?: string
+    import?: string
+    help: boolean
+}
+
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = {files: [], help: false}
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]
+        switch (arg) {
+            case '--out':
+            case '--account':
+            case '--import': {
+                const value = argv[++i]
+                if (value === undefined) {
+                    throw new Error(`Missing value for ${arg}`)
+                }
+                args[arg.slice(2)] = value
+                break
+            }
+            case '-h':
+            case '--help':
+                args.help = true
+                break
+            default:
+                if (arg.startsWith('-')) {
+                    throw new Error(`Unknown option: ${arg}`)
+                }
+                args.files.push(arg)
+        }
+    }
+    if (args.files.length > 1 && args.account) {
+        throw new Error('--account can only be used with one ABI')
+    }
+    if (args.files.length > 1 && !args.out) {
+        throw new Error('Multiple ABIs require --out')
+    }
+    return args
+}
+
+function main(argv: string[]) {
+    let args: CliArgs
+    try {
+        args = parseArgs(argv)
+    } catch (error) {
+        process.stderr.write(`${(error as Error).message}\n\n${usage}`)
+        return 2
+    }
+    if (args.help) {
+        process.stdout.write(usage)
+        return 0
+    }
+    if (args.files.length === 0) {
+        process.stderr.write(usage)
+        return 2
+    }
+    try {
+        if (args.out) {
+            mkdirSync(args.out, {recursive: true})
+        }
+        for (const file of args.files) {
+            const json = JSON.parse(readFileSync(file).toString('utf8'))
+            const account = args.account || json.account_name || basename(file, '.json')
+            const source = generateContractTypes(account, json, {importFrom: args.import})
+            if (args.out) {
+                writeFileSync(joinPath(args.out, `${account}.ts`), source + '\n')
+            } else {
+                process.stdout.write(source + '\n')
+            }
+        }
+        return 0
+    } catch (error) {
+        process.stderr.write(`Error: ${(error as Error).message || String(error)}\n`)
+        return 1
+    }
+}
+
+process.exitCode = main(process.argv.slice(2))
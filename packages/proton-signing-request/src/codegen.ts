@@ -0,0 +1,231 @@
+/** TypeScript types and action builders generated from contract ABIs. */
+
+import {ABI, ABIDef, Name, NameType} from '@greymass/eosio'
+
+export interface CodegenOptions {
+    /** Module the generated code imports its types from, defaults to `@greymass/eosio`. */
+    importFrom?: string
+}
+
+/** ABI built-in types and the type accepted for them when encoding. */
+const builtinTypes: Record<string, string> = {
+    bool: 'boolean',
+    int8: 'Int8Type',
+    int16: 'Int16Type',
+    int32: 'Int32Type',
+    int64: 'Int64Type',
+    int128: 'Int128Type',
+    uint8: 'UInt8Type',
+    uint16: 'UInt16Type',
+    uint32: 'UInt32Type',
+    uint64: 'UInt64Type',
+    uint128: 'UInt128Type',
+    varint32: 'VarIntType',
+    varuint32: 'VarUIntType',
+    float32: 'Float32Type',
+    float64: 'Float64Type',
+    float128: 'Float128Type',
+    time_point: 'TimePointType',
+    time_point_sec: 'TimePointType',
+    block_timestamp_type: 'TimePointType',
+    name: 'NameType',
+    bytes: 'BytesType',
+    string: 'string',
+    checksum160: 'Checksum160Type',
+    checksum256: 'Checksum256Type',
+    checksum512: 'Checksum512Type',
+    public_key: 'PublicKeyType',
+    signature: 'SignatureType',
+    symbol: 'Asset.SymbolType',
+    symbol_code: 'Asset.SymbolCodeType',
+    asset: 'AssetType',
+    extended_asset: 'ExtendedAssetType',
+}
+
+/** Identifiers used by the generated module itself. */
+const reservedNames = ['account', 'buildAction', 'Actions', 'Authorization']
+
+const keywords = new Set(
+    (
+        'await break case catch class const continue debugger default delete do else enum ' +
+        'export extends false finally for function if implements import in instanceof ' +
+        'interface let new null package private protected public return static super switch ' +
+        'this throw true try typeof var void while with yield'
+    ).split(' ')
+)
+
+/**
+ * Generate a TypeScript module with an interface for every struct and a builder for
+ * every action of a contract, e.g. `transfer(data, authorization)` for `eosio.token`.
+ *
+ * Builders return actions with unencoded data, usable anywhere an `AnyAction` is accepted:
+ *
+ * ```ts
+ * import * as eosioToken from './contracts/eosio.token'
+ * await session.transact({actions: [eosioToken.transfer({from, to, quantity, memo}, session.auth)]})
+ * ```
+ *
+ * @param account The contract account.
+ * @param abi The contract ABI, a definition or a `get_abi` response.
+ * @param options Code generation options.
+ */
+export function generateContractTypes(
+    account: NameType,
+    abi: ABIDef | {abi: ABIDef},
+    options: CodegenOptions = {}
+) {
+    const def = ABI.from(
+        typeof abi === 'object' && 'abi' in abi ? (abi as {abi: ABIDef}).abi : (abi as ABIDef)
+    )
+    const contract = String(Name.from(account))
+    const used = new Set<string>()
+    const names = new Map<string, string>()
+    const taken = new Set([...reservedNames, ...Object.values(builtinTypes)])
+    const typeName = (name: string) => {
+        let rv = names.get(name)
+        if (!rv) {
+            const base = pascalCase(name)
+            rv = base
+            for (let i = 2; taken.has(rv); i++) {
+                rv = `${base}${i}`
+            }
+            taken.add(rv)
+            names.set(name, rv)
+        }
+        return rv
+    }
+    for (const {new_type_name} of def.types) {
+        typeName(new_type_name)
+    }
+    for (const {name} of def.variants) {
+        typeName(name)
+    }
+    for (const {name} of def.structs) {
+        typeName(name)
+    }
+    const resolve = (type: string): string => {
+        if (type.endsWith('$')) {
+            return resolve(type.slice(0, -1))
+        }
+        if (type.endsWith('?')) {
+            return `${resolve(type.slice(0, -1))} | null`
+        }
+        if (type.endsWith('[]')) {
+            const inner = resolve(type.slice(0, -2))
+            return inner.includes(' ') ? `(${inner})[]` : `${inner}[]`
+        }
+        if (names.has(type)) {
+            return names.get(type)!
+        }
+        const builtin = builtinTypes[type]
+        if (!builtin) {
+            return 'unknown'
+        }
+        if (builtin !== 'boolean' && builtin !== 'string') {
+            used.add(builtin.split('.')[0])
+        }
+        return builtin
+    }
+
+    const body: string[] = []
+    for (const {new_type_name, type} of def.types) {
+        body.push(`export type ${typeName(new_type_name)} = ${resolve(type)}`)
+    }
+    for (const {name, types} of def.variants) {
+        const members = types.map((type) => `[${quote(type)}, ${resolve(type)}]`)
+        body.push(`export type ${typeName(name)} = ${members.join(' | ') || 'never'}`)
+    }
+    for (const struct of def.structs) {
+        const fields = struct.fields.map(({name, type}) => {
+            const optional = type.endsWith('?') || type.endsWith('$')
+            return `    ${propertyName(name)}${optional ? '?' : ''}: ${resolve(type)}`
+        })
+        const base = struct.base ? ` extends ${resolve(struct.base)}` : ''
+        const declaration = `export interface ${typeName(struct.name)}${base}`
+        body.push(
+            fields.length > 0
+                ? [`${declaration} {`, ...fields, '}'].join('\n')
+                : `${declaration} {}`
+        )
+    }
+    const actions = def.actions.map(({name, type}) => ({
+        name: String(name),
+        type: resolve(type),
+    }))
+    body.push(
+        [
+            '/** Actions of the contract and their data. */',
+            'export interface Actions {',
+            ...actions.map(({name, type}) => `    ${propertyName(name)}: ${type}`),
+            '}',
+        ].join('\n')
+    )
+    for (const {name, type} of actions) {
+        body.push(
+            [
+                `/** Create a \`${contract}::${name}\` action. */`,
+                `export function ${functionName(name)}(data: ${type}, authorization: Authorization) {`,
+                `    return buildAction(${quote(name)}, data, authorization)`,
+                '}',
+            ].join('\n')
+        )
+    }
+    body.push(
+        [
+            'function buildAction<N extends keyof Actions>(',
+            '    name: N,',
+            '    data: Actions[N],',
+            '    authorization: Authorization',
+            '): AnyAction & {name: N; data: Actions[N]} {',
+            '    return {',
+            '        account,',
+            '        name,',
+            '        authorization: Array.isArray(authorization) ? authorization : [authorization],',
+            '        data,',
+            '    }',
+            '}',
+        ].join('\n')
+    )
+    const imports = ['AnyAction', 'PermissionLevelType', ...used].sort()
+    return [
+        [
+            '/**',
+            ` * Types and action builders for the ${contract} contract.`,
+            ' * Generated from the contract ABI by esr-codegen, do not edit.',
+            ' */',
+        ].join('\n'),
+        `import type {${imports.join(', ')}} from ${quote(options.importFrom || '@greymass/eosio')}`,
+        `/** The contract account. */\nexport const account = ${quote(contract)}`,
+        '/** One or more permissions authorizing an action. */\n' +
+            'export type Authorization = PermissionLevelType | PermissionLevelType[]',
+        ...body,
+    ].join('\n\n')
+}
+
+function quote(value: string) {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function pascalCase(name: string) {
+    const rv = name
+        .split(/[^A-Za-z0-9]+/)
+        .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+        .join('')
+    return /^[A-Za-z]/.test(rv) ? rv : `T${rv}`
+}
+
+function functionName(name: string) {
+    const rv = name
+        .split('.')
+        .filter((part) => part.length > 0)
+        .map((part, idx) => (idx === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1)))
+        .join('')
+    if (!/^[a-z]/.test(rv)) {
+        return `_${rv}`
+    }
+    return keywords.has(rv) || reservedNames.includes(rv) ? `${rv}_` : rv
+}
+
+function propertyName(name: string) {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name)
+}
@@ -1,5 +1,12 @@
 export * from './signing-request'
+export * from './builder'
+export * from './batch'
 export * from './abi'
 export * from './chain-id'
 export * from './identity-proof'
+export * from './verify-identity'
+export * from './sign-in'
+export * from './summary'
+export * from './inspect'
+export * from './codegen'
 export * as Base64u from './base64u'
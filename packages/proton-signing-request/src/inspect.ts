@@ -0,0 +1,269 @@
+/** Offline decoding and inspection of signing request URIs. */
+
+import {
+    Bytes,
+    isInstanceOf,
+    Name,
+    PermissionLevel,
+    PermissionLevelType,
+    Serializer,
+    Struct,
+} from '@greymass/eosio'
+
+import {ChainName} from './chain-id'
+import {
+    AbiMap,
+    PlaceholderName,
+    PlaceholderPermission,
+    SigningRequest,
+    SigningRequestEncodingOptions,
+    ZlibProvider,
+} from './signing-request'
+import {summarizeAction} from './summary'
+
+export interface InspectOptions {
+    /** Zlib implementation used to inflate compressed requests. */
+    zlib?: ZlibProvider
+    /** ABI definitions, if set the actions will be decoded and described. */
+    abis?: AbiMap
+    /** Signer used to resolve placeholders, only considered when ABIs are given. */
+    signer?: PermissionLevelType
+}
+
+export interface InspectedAction {
+    account: string
+    name: string
+    authorization: string[]
+    /** HEX-encoded action data. */
+    data: string
+}
+
+export interface InspectedResolvedAction {
+    account: string
+    name: string
+    authorization: string[]
+    /** Decoded action data. */
+    data: Record<string, any>
+    /** Human-readable description of the action. */
+    summary: string
+}
+
+export interface InspectedPlaceholder {
+    /** Index of the action containing the placeholder. */
+    action: number
+    /** Path to the placeholder within the action, e.g. `data.from`. */
+    path: string
+    /** The placeholder, `............1` or `............2`. */
+    placeholder: string
+    /** What the placeholder resolved to. */
+    value: string
+}
+
+export interface RequestInspection {
+    scheme: string
+    version: number
+    /** Chain id, `null` for multi-chain requests. */
+    chainId: string | null
+    /** Chain alias name, e.g. `PROTON`, if known. */
+    chainName: string | null
+    /** Chain ids a multi-chain request is constrained to, `null` means any chain. */
+    chainIds: string[] | null
+    identity: boolean
+    flags: {broadcast: boolean; background: boolean}
+    callback: string
+    /** Info pairs, values are decoded as utf8 when printable, otherwise HEX-encoded. */
+    info: {key: string; value: string; encoding: 'utf8' | 'hex'}[]
+    /** Request signature, `key` is the recovered public key, not verified against the signers authority. */
+    signature: {signer: string; signature: string; key: string} | null
+    actions: InspectedAction[]
+    /** Signer used when resolving, only present if ABIs were given. */
+    signer?: string
+    /** Decoded actions, only present if ABIs were given. */
+    resolvedActions?: InspectedResolvedAction[]
+    /** Placeholder substitutions, only present if both ABIs and signer were given. */
+    placeholders?: InspectedPlaceholder[]
+}
+
+/**
+ * Decode a signing request uri and collect everything known about it.
+ * @param uri The `esr:`, `proton:` or `proton-dev:` uri, `web+` prefixed schemes are accepted.
+ * @param options Zlib, ABIs and signer to use when inspecting.
+ * @throws If the request can not be decoded or an ABI is missing.
+ */
+export function inspectRequest(uri: string, options: InspectOptions = {}): RequestInspection {
+    const scheme = uri
+        .split(':')[0]
+        .replace(/^web\+/, '') as SigningRequestEncodingOptions['scheme']
+    const request = SigningRequest.from(uri, {scheme, zlib: options.zlib})
+    const multiChain = request.isMultiChain()
+    const chainId = multiChain ? null : request.getChainId()
+    const chainIds = request.getChainIds()
+    const rv: RequestInspection = {
+        scheme,
+        version: request.version,
+        chainId: chainId ? String(chainId) : null,
+        chainName:
+            chainId && chainId.chainName !== ChainName.UNKNOWN
+                ? ChainName[chainId.chainName]
+                : null,
+        chainIds: chainIds ? chainIds.map(String) : null,
+        identity: request.isIdentity(),
+        flags: {
+            broadcast: request.data.flags.broadcast,
+            background: request.data.flags.background,
+        },
+        callback: request.data.callback,
+        info: request.data.info.map(({key, value}) => ({key, ...formatBytes(value)})),
+        signature: request.signature
+            ? {
+                  signer: String(request.signature.signer),
+                  signature: String(request.signature.signature),
+                  key: String(request.getSignerKey()),
+              }
+            : null,
+        actions: request.getRawActions().map((action) => ({
+            account: String(action.account),
+            name: String(action.name),
+            authorization: action.authorization.map(formatAuth),
+            data: action.data.hexString,
+        })),
+    }
+    if (options.abis) {
+        const resolved = request.resolveActions(options.abis, options.signer)
+        rv.resolvedActions = resolved.map((action) => ({
+            account: String(action.account),
+            name: String(action.name),
+            authorization: action.authorization.map(formatAuth),
+            data: Serializer.objectify(action.data),
+            summary: summarizeAction(action).text,
+        }))
+        if (options.signer) {
+            rv.signer = formatAuth(PermissionLevel.from(options.signer))
+            const unresolved = request.resolveActions(options.abis)
+            rv.placeholders = []
+            for (const [idx, action] of unresolved.entries()) {
+                const found: Omit<InspectedPlaceholder, 'action'>[] = []
+                findPlaceholders(
+                    action.authorization,
+                    resolved[idx].authorization,
+                    'authorization',
+                    found
+                )
+                findPlaceholders(action.data, resolved[idx].data, 'data', found)
+                rv.placeholders.push(...found.map((item) => ({action: idx, ...item})))
+            }
+        }
+    }
+    return rv
+}
+
+/** Format an inspection result as human-readable text. */
+export function formatInspection(inspection: RequestInspection): string {
+    const lines: string[] = []
+    const row = (label: string, value: string) => lines.push(`${(label + ':').padEnd(11)}${value}`)
+    const flags = (['broadcast', 'background'] as const).filter((flag) => inspection.flags[flag])
+    row('Scheme', inspection.scheme)
+    row('Version', String(inspection.version))
+    if (inspection.chainId) {
+        const name = inspection.chainName ? ` (${inspection.chainName})` : ''
+        row('Chain', inspection.chainId + name)
+    } else {
+        row('Chain', 'any (multi-chain)')
+        if (inspection.chainIds) {
+            for (const id of inspection.chainIds) {
+                lines.push(`           - ${id}`)
+            }
+        }
+    }
+    row('Type', inspection.identity ? 'identity' : 'transaction')
+    row('Flags', flags.length > 0 ? flags.join(', ') : 'none')
+    row('Callback', inspection.callback || 'none')
+    if (inspection.signature) {
+        row('Signature', `${inspection.signature.signer} ${inspection.signature.signature}`)
+        row(
+            'Signed by',
+            `${inspection.signature.signer} using ${inspection.signature.key} (unverified)`
+        )
+    }
+    if (inspection.info.length > 0) {
+        lines.push('Info:')
+        for (const {key, value, encoding} of inspection.info) {
+            lines.push(`  ${key} = ${encoding === 'hex' ? `0x${value}` : JSON.stringify(value)}`)
+        }
+    }
+    lines.push('Actions:')
+    for (const [idx, action] of inspection.actions.entries()) {
+        lines.push(
+            `  ${idx}: ${action.account}::${action.name} [${action.authorization.join(', ')}]`
+        )
+        lines.push(`     data: ${action.data || '(empty)'}`)
+    }
+    if (inspection.resolvedActions) {
+        const signer = inspection.signer ? ` (signer ${inspection.signer})` : ''
+        lines.push(`Resolved actions${signer}:`)
+        for (const [idx, action] of inspection.resolvedActions.entries()) {
+            lines.push(`  ${idx}: ${action.summary}`)
+            lines.push(
+                `     ${action.account}::${action.name} [${action.authorization.join(', ')}]`
+            )
+            for (const key of Object.keys(action.data)) {
+                lines.push(`     ${key}: ${JSON.stringify(action.data[key])}`)
+            }
+        }
+    }
+    if (inspection.placeholders) {
+        lines.push('Placeholders:')
+        if (inspection.placeholders.length === 0) {
+            lines.push('  none')
+        }
+        for (const {action, path, placeholder, value} of inspection.placeholders) {
+            lines.push(`  ${action}: ${path} ${placeholder} -> ${value}`)
+        }
+    }
+    return lines.join('\n')
+}
+
+/** Walk decoded and resolved values in parallel, collecting placeholder substitutions. */
+function findPlaceholders(
+    value: any,
+    resolved: any,
+    path: string,
+    out: Omit<InspectedPlaceholder, 'action'>[]
+) {
+    if (isInstanceOf(value, Name)) {
+        if (value.equals(PlaceholderName) || value.equals(PlaceholderPermission)) {
+            out.push({path, placeholder: String(value), value: String(resolved)})
+        }
+    } else if (Array.isArray(value)) {
+        value.forEach((item, idx) => findPlaceholders(item, resolved[idx], `${path}[${idx}]`, out))
+    } else if (
+        isInstanceOf(value, Struct) ||
+        (typeof value === 'object' && value !== null && value.constructor === Object)
+    ) {
+        for (const key of Object.keys(value)) {
+            findPlaceholders(value[key], resolved[key], `${path}.${key}`, out)
+        }
+    }
+}
+
+function formatBytes(value: Bytes): {value: string; encoding: 'utf8' | 'hex'} {
+    try {
+        const text = new TextDecoder('utf-8', {fatal: true}).decode(value.array)
+        const printable = Array.from(text).every((char) => {
+            const code = char.charCodeAt(0)
+            return (
+                (code >= 0x20 && code !== 0x7f) || code === 0x09 || code === 0x0a || code === 0x0d
+            )
+        })
+        if (printable) {
+            return {value: text, encoding: 'utf8'}
+        }
+    } catch {
+        // not valid utf8
+    }
+    return {value: value.hexString, encoding: 'hex'}
+}
+
+function formatAuth(auth: PermissionLevel) {
+    return `${auth.actor}@${auth.permission}`
+}
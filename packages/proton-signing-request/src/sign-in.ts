@@ -0,0 +1,400 @@
+/** Sign-In-With-Proton, server issued challenges signed as non-broadcast transactions. */
+
+import {
+    ABI,
+    Action,
+    Bytes,
+    BytesType,
+    Checksum256,
+    isInstanceOf,
+    Name,
+    NameType,
+    PermissionLevel,
+    PublicKey,
+    Serializer,
+    Signature,
+    Struct,
+    TimePointSec,
+    TimePointType,
+} from '@greymass/eosio'
+
+import * as Base64u from './base64u'
+import {ChainId, ChainIdType} from './chain-id'
+import {
+    CallbackPayload,
+    DEFAULT_SCHEME,
+    PlaceholderAuth,
+    ResolvedSigningRequest,
+    SigningRequestEncodingOptions,
+} from './signing-request'
+import {IdentityVerificationClient, verifyPermissionKey} from './verify-identity'
+
+/** Name of the action carrying the challenge. */
+export const SignInActionName = 'signin'
+
+/**
+ * ABI of the sign-in contract. Set it on the account used as [[SignInServiceOptions.contract]],
+ * no contract code is needed since the sign-in transaction is never broadcast.
+ */
+export const SignInAbi = ABI.from({
+    version: 'eosio::abi/1.1',
+    structs: [
+        {
+            name: 'sign_in_challenge',
+            base: '',
+            fields: [
+                {name: 'nonce', type: 'bytes'},
+                {name: 'domain', type: 'string'},
+                {name: 'contract', type: 'name'},
+                {name: 'chainId', type: 'checksum256'},
+                {name: 'issuedAt', type: 'time_point_sec'},
+            ],
+        },
+    ],
+    actions: [{name: SignInActionName, type: 'sign_in_challenge', ricardian_contract: ''}],
+})
+
+export type SignInChallengeType =
+    | SignInChallenge
+    | string
+    | {
+          nonce: BytesType
+          domain: string
+          contract: NameType
+          chainId: ChainIdType
+          issuedAt: TimePointType
+      }
+
+/**
+ * Server issued challenge. The wallet signs it as the data of the [[SignInChallenge.action]]
+ * in a transaction that is not broadcast, binding the signature to the nonce and domain.
+ */
+@Struct.type('sign_in_challenge')
+export class SignInChallenge extends Struct {
+    @Struct.field('bytes') nonce!: Bytes
+    @Struct.field('string') domain!: string
+    @Struct.field(Name) contract!: Name
+    @Struct.field(ChainId) chainId!: ChainId
+    @Struct.field(TimePointSec) issuedAt!: TimePointSec
+
+    static from(value: SignInChallengeType): SignInChallenge {
+        if (isInstanceOf(value, SignInChallenge)) {
+            return value
+        } else if (typeof value === 'string') {
+            return SignInChallenge.fromString(value)
+        } else {
+            return super.from(value) as SignInChallenge
+        }
+    }
+
+    /** Decode a challenge from the string created by [[SignInChallenge.toString]]. */
+    static fromString(string: string) {
+        return Serializer.decode({data: Base64u.decode(string), type: SignInChallenge})
+    }
+
+    /** Encode the challenge to a url-safe string, for passing it to the client. */
+    toString() {
+        return Base64u.encode(Serializer.encode({object: this}).array)
+    }
+
+    /** Action the wallet signs to respond to the challenge, authorized by the signer. */
+    get action(): Action {
+        return Action.from({
+            account: this.contract,
+            name: SignInActionName,
+            authorization: [PlaceholderAuth],
+            data: this,
+        })
+    }
+}
+
+@Struct.type('sign_in_token')
+class SignInTokenData extends Struct {
+    @Struct.field(PermissionLevel) signer!: PermissionLevel
+    @Struct.field(ChainId) chainId!: ChainId
+    @Struct.field(TimePointSec) expiration!: TimePointSec
+    @Struct.field('bytes') nonce!: Bytes
+}
+
+/** Thrown when a sign-in challenge response or session token is invalid. */
+export class SignInError extends Error {
+    /** HTTP status code, used by web frameworks when passing the error on to error handlers. */
+    public readonly status = 401
+    /** Alias of status for frameworks that use `statusCode`, e.g. fastify. */
+    public readonly statusCode = 401
+
+    constructor(reason: string) {
+        super(`Sign-in failed: ${reason}`)
+        this.name = 'SignInError'
+    }
+}
+
+/** Storage for issued challenge nonces, makes sure each challenge is only used once. */
+export interface SignInNonceStore {
+    /** Store an issued nonce, it can be forgotten after expiration. */
+    add(nonce: string, expiration: Date): Promise<void>
+    /** Remove a nonce, should return false if it was never issued, already used or expired. */
+    consume(nonce: string): Promise<boolean>
+}
+
+/** Nonce store keeping nonces in memory, not suitable for deployments with multiple processes. */
+export class MemorySignInNonceStore implements SignInNonceStore {
+    private nonces = new Map<string, number>()
+
+    async add(nonce: string, expiration: Date) {
+        const now = Date.now()
+        for (const [key, expires] of this.nonces) {
+            if (expires <= now) {
+                this.nonces.delete(key)
+            }
+        }
+        this.nonces.set(nonce, expiration.getTime())
+    }
+
+    async consume(nonce: string) {
+        const expires = this.nonces.get(nonce)
+        this.nonces.delete(nonce)
+        return expires !== undefined && expires > Date.now()
+    }
+}
+
+export interface SignInServiceOptions {
+    /** Domain the challenges are issued for, e.g. `app.example.com`. */
+    domain: string
+    /** Account the sign-in action is addressed to, it needs the [[SignInAbi]] set. */
+    contract: NameType
+    /** Chain the user signs in on. */
+    chainId: ChainIdType
+    /** Client used to fetch the signers account, see [[verifyIdentityProof]]. */
+    client: IdentityVerificationClient
+    /** Secret used to sign session tokens, strings are utf8 encoded. Keep it private. */
+    secret: string | Uint8Array
+    /** Nonce store, defaults to a [[MemorySignInNonceStore]]. */
+    store?: SignInNonceStore
+    /** Seconds a challenge can be responded to, defaults to 5 minutes. */
+    challengeTtl?: number
+    /** Seconds a session token is valid, defaults to 24 hours. */
+    sessionTtl?: number
+    /** Options used to decode the request in the callback payload. */
+    encoding?: SigningRequestEncodingOptions
+}
+
+/** Session established by a successful sign-in. */
+export interface SignInSession {
+    /** Account that signed in. */
+    actor: Name
+    /** Permission that signed in. */
+    permission: Name
+    /** Actor and permission as a permission level. */
+    signer: PermissionLevel
+    /** Chain the user signed in on. */
+    chainId: ChainId
+    /** Time the session token expires. */
+    expiration: TimePointSec
+}
+
+/** The result of [[SignInService.verify]]. */
+export interface SignInResult extends SignInSession {
+    /** Key that signed the challenge. */
+    publicKey: PublicKey
+    /** The challenge that was responded to. */
+    challenge: SignInChallenge
+    /** Session token to hand to the client, verify it using [[SignInService.verifyToken]]. */
+    token: string
+}
+
+/**
+ * Issues sign-in challenges and verifies the signed transactions responding to them.
+ *
+ * ```ts
+ * const service = new SignInService({domain: 'app.example.com', chainId, client, secret})
+ * // GET /challenge
+ * res.json({challenge: String(await service.createChallenge())})
+ * // POST /login with the challengePayload from link.login(identifier, {challenge})
+ * const {token} = await service.verify(req.body)
+ * // on later requests
+ * const {actor} = service.verifyToken(req.headers['x-session'])
+ * ```
+ */
+export class SignInService {
+    readonly domain: string
+    readonly contract: Name
+    readonly chainId: ChainId
+    readonly challengeTtl: number
+    readonly sessionTtl: number
+
+    private client: IdentityVerificationClient
+    private secret: Bytes
+    private store: SignInNonceStore
+    private encoding: SigningRequestEncodingOptions
+
+    constructor(options: SignInServiceOptions) {
+        this.domain = options.domain
+        this.contract = Name.from(options.contract)
+        this.chainId = ChainId.from(options.chainId)
+        this.client = options.client
+        this.secret =
+            typeof options.secret === 'string'
+                ? Bytes.fromString(options.secret, 'utf8')
+                : Bytes.from(options.secret)
+        if (this.secret.length < 16) {
+            throw new TypeError('Invalid sign-in secret, must be at least 16 bytes')
+        }
+        this.store = options.store || new MemorySignInNonceStore()
+        this.challengeTtl = options.challengeTtl || 5 * 60
+        this.sessionTtl = options.sessionTtl || 24 * 60 * 60
+        this.encoding = {
+            ...(options.encoding || {scheme: DEFAULT_SCHEME}),
+            // only the sign-in action is resolved, its abi does not need to be fetched
+            abiProvider: {
+                getAbi: async (account) => {
+                    if (!account.equals(this.contract)) {
+                        throw new Error(`Unexpected action on ${account}`)
+                    }
+                    return SignInAbi
+                },
+            },
+        }
+    }
+
+    /** Create a new single-use challenge. */
+    async createChallenge(now = new Date()) {
+        const challenge = SignInChallenge.from({
+            nonce: Bytes.random(16),
+            domain: this.domain,
+            contract: this.contract,
+            chainId: this.chainId,
+            issuedAt: TimePointSec.fromMilliseconds(Math.floor(now.getTime() / 1000) * 1000),
+        })
+        await this.store.add(
+            String(challenge.nonce),
+            new Date(challenge.issuedAt.toMilliseconds() + this.challengeTtl * 1000)
+        )
+        return challenge
+    }
+
+    /**
+     * Verify the callback payload of a transaction signing the [[SignInChallenge.action]]
+     * and issue a session token.
+     * @throws SignInError if the response is invalid, RPC errors are passed through.
+     */
+    async verify(payload: CallbackPayload, now = new Date()): Promise<SignInResult> {
+        let resolved: ResolvedSigningRequest
+        let challenge: SignInChallenge
+        let publicKey: PublicKey
+        try {
+            resolved = await ResolvedSigningRequest.fromPayload(payload, this.encoding)
+            const {actions} = resolved.transaction
+            if (actions.length !== 1) {
+                throw new Error('Expected a single sign-in action')
+            }
+            const [action] = actions
+            if (!action.account.equals(this.contract) || !action.name.equals(SignInActionName)) {
+                throw new Error(`Unexpected action ${action.account}:${action.name}`)
+            }
+            if (!action.authorization.every((auth) => auth.equals(resolved.signer))) {
+                throw new Error(`Action not authorized by ${resolved.signer}`)
+            }
+            challenge = Serializer.decode({data: action.data, type: SignInChallenge})
+            publicKey = Signature.from(payload.sig).recoverDigest(resolved.signingDigest)
+        } catch (error) {
+            throw new SignInError((error as Error).message || 'Malformed request')
+        }
+        // the challenge is part of the signed transaction, so these checks can be trusted
+        if (challenge.domain !== this.domain) {
+            throw new SignInError(`Challenge issued for ${challenge.domain}`)
+        }
+        if (!challenge.contract.equals(this.contract)) {
+            throw new SignInError(`Challenge issued for contract ${challenge.contract}`)
+        }
+        if (!challenge.chainId.equals(this.chainId)) {
+            throw new SignInError(`Challenge issued for chain ${challenge.chainId}`)
+        }
+        if (!resolved.chainId.equals(this.chainId)) {
+            throw new SignInError(`Signed for chain ${resolved.chainId}`)
+        }
+        const issuedAt = challenge.issuedAt.toMilliseconds()
+        if (issuedAt > now.getTime() || now.getTime() - issuedAt > this.challengeTtl * 1000) {
+            throw new SignInError(`Challenge issued at ${challenge.issuedAt} has expired`)
+        }
+        const signer = resolved.signer
+        if (!(await verifyPermissionKey(publicKey, signer, {client: this.client}))) {
+            throw new SignInError(`Not signed by ${signer}`)
+        }
+        if (!(await this.store.consume(String(challenge.nonce)))) {
+            throw new SignInError('Challenge unknown or already used')
+        }
+        const session = SignInTokenData.from({
+            signer,
+            chainId: this.chainId,
+            expiration: TimePointSec.fromMilliseconds(now.getTime() + this.sessionTtl * 1000),
+            nonce: challenge.nonce,
+        })
+        return {
+            ...this.sessionFromToken(session),
+            publicKey,
+            challenge,
+            token: this.encodeToken(session),
+        }
+    }
+
+    /**
+     * Verify a session token issued by [[SignInService.verify]].
+     * @throws SignInError if the token is invalid or expired.
+     */
+    verifyToken(token: string, now = new Date()): SignInSession {
+        const [data, mac] = String(token || '').split('.')
+        let session: SignInTokenData
+        try {
+            const bytes = Bytes.from(Base64u.decode(data))
+            if (!timingSafeEqual(hmacSha256(this.secret, bytes).array, Base64u.decode(mac))) {
+                throw new Error('Invalid signature')
+            }
+            session = Serializer.decode({data: bytes, type: SignInTokenData})
+        } catch (error) {
+            throw new SignInError(`Invalid token (${(error as Error).message})`)
+        }
+        if (!session.chainId.equals(this.chainId)) {
+            throw new SignInError(`Token issued for chain ${session.chainId}`)
+        }
+        if (session.expiration.toMilliseconds() <= now.getTime()) {
+            throw new SignInError(`Token expired at ${session.expiration}`)
+        }
+        return this.sessionFromToken(session)
+    }
+
+    private encodeToken(session: SignInTokenData) {
+        const data = Serializer.encode({object: session})
+        const mac = hmacSha256(this.secret, data)
+        return `${Base64u.encode(data.array)}.${Base64u.encode(mac.array)}`
+    }
+
+    private sessionFromToken(session: SignInTokenData): SignInSession {
+        return {
+            actor: session.signer.actor,
+            permission: session.signer.permission,
+            signer: session.signer,
+            chainId: session.chainId,
+            expiration: session.expiration,
+        }
+    }
+}
+
+/** HMAC-SHA256 as specified in RFC 2104. */
+function hmacSha256(key: Bytes, message: Bytes) {
+    const blockSize = 64
+    const block = new Uint8Array(blockSize)
+    block.set(key.length > blockSize ? Checksum256.hash(key).array : key.array)
+    const inner = block.map((byte) => byte ^ 0x36)
+    const outer = block.map((byte) => byte ^ 0x5c)
+    const innerHash = Checksum256.hash(Bytes.from(inner).appending(message))
+    return Checksum256.hash(Bytes.from(outer).appending(innerHash.array))
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array) {
+    let diff = a.length ^ b.length
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ (b[i] || 0)
+    }
+    return diff === 0
+}
@@ -13,6 +13,8 @@ import {
     Action,
     AnyAction,
     AnyTransaction,
+    Authority,
+    AuthorityType,
     Bytes,
     BytesType,
     Checksum256,
@@ -20,6 +22,7 @@ import {
     NameType,
     PermissionLevel,
     PermissionLevelType,
+    PublicKey,
     Serializer,
     Signature,
     SignatureType,
@@ -47,6 +50,7 @@ import {
     RequestSignature,
 } from './abi'
 import {IdentityProof} from './identity-proof'
+import {ActionSummary, summarizeActions, SummaryOptions} from './summary'
 
 /** Current supported protocol version, backwards compatible with version 2. */
 export const ProtocolVersion = 2
@@ -98,6 +102,8 @@ export interface CallbackPayload {
     ex: string
     /** The resolved chain id.  */
     cid?: string
+    /** Index of the request within its batch, only present for batch requests. */
+    bi?: string
     /** All signatures 0-indexed as `sig0`, `sig1`, etc. */
     [sig0: string]: string | undefined
 }
@@ -233,6 +239,8 @@ interface SigningRequestCommonArguments {
     chainIds?: ChainIdType[]
     /** Optional metadata to pass along with the request. */
     info?: {[key: string]: Bytes | ABISerializable}
+    /** Time after which the request is no longer valid, stored in the `expiration` info key. */
+    expiration?: TimePointType
 }
 
 export interface SigningRequestCreateArguments extends SigningRequestCommonArguments {
@@ -249,6 +257,11 @@ export interface SigningRequestCreateArguments extends SigningRequestCommonArgum
     identity?: {
         // scope?: NameType
         permission?: PermissionLevelType
+        /**
+         * Protocol version of the identity request, defaults to 2.
+         * Proofs for version 3 requests carry the expiration chosen by the wallet.
+         */
+        version?: 2 | 3
     }
     /** Whether wallet should broadcast tx, defaults to true. */
     broadcast?: boolean
@@ -278,6 +291,11 @@ export interface SigningRequestCreateIdentityArguments extends SigningRequestCom
      * Scope for the request.
      */
     // scope?: NameType
+    /**
+     * Protocol version of the request, defaults to 2.
+     * Proofs for version 3 requests carry the expiration chosen by the wallet.
+     */
+    version?: 2 | 3
 }
 
 export interface SigningRequestEncodingOptions {
@@ -358,7 +376,7 @@ export class SigningRequest {
         options: SigningRequestEncodingOptions = {scheme: DEFAULT_SCHEME},
         abis: Record<string, ABIDef> = {}
     ) {
-        const version = 2
+        let version = 2
         const data: any = {}
         const encode = (action: AnyAction) => encodeAction(action, abis)
 
@@ -372,7 +390,13 @@ export class SigningRequest {
             // if (args.identity.scope) {
             //     version = 3
             // }
-            data.req = ['identity', this.identityType(version).from(args.identity)]
+            if (args.identity.version === 3) {
+                version = 3
+            }
+            data.req = [
+                'identity',
+                this.identityType(version).from({permission: args.identity.permission}),
+            ]
         } else if (args.action && !args.actions && !args.transaction) {
             data.req = ['action', encode(args.action)]
         } else if (args.actions && !args.action && !args.transaction) {
@@ -459,6 +483,12 @@ export class SigningRequest {
                 }
             }
         }
+        if (args.expiration !== undefined) {
+            data.info.push({
+                key: 'expiration',
+                value: Serializer.encode({object: TimePointSec.from(args.expiration)}),
+            })
+        }
         if (args.chainIds && args.chainId === null) {
             const ids = args.chainIds.map((id) => ChainId.from(id).chainVariant)
             data.info.push({
@@ -504,6 +534,7 @@ export class SigningRequest {
                 identity: {
                     permission,
                     // scope: args.scope,
+                    version: args.version,
                 },
                 broadcast: false,
             },
@@ -562,6 +593,9 @@ export class SigningRequest {
     ) {
         data = Bytes.from(data)
         const header = data.array[0]
+        if ((header & (1 << 6)) !== 0) {
+            throw new Error('Batch requests must be decoded using SigningRequestBatch')
+        }
         const version = header & ~(1 << 7)
         if (version !== 2 && version !== 3) {
             throw new Error(`Unsupported protocol version ${version}`)
@@ -601,6 +635,7 @@ export class SigningRequest {
 
     private zlib?: ZlibProvider
     private abiProvider?: AbiProvider
+    private signatureProvider?: SignatureProvider
 
     /**
      * Create a new signing request.
@@ -628,11 +663,12 @@ export class SigningRequest {
 
     /**
      * Sign the request, mutating.
+     * The request is signed again using the same provider whenever it's modified afterwards.
      * @param signatureProvider The signature provider that provides a signature for the signer.
      */
     public sign(signatureProvider: SignatureProvider) {
-        const message = this.getSignatureDigest()
-        this.signature = RequestSignature.from(signatureProvider.sign(message))
+        this.signatureProvider = signatureProvider
+        this.updateSignature()
     }
 
     /**
@@ -650,9 +686,43 @@ export class SigningRequest {
      * @param signature The signature string.
      */
     public setSignature(signer: string, signature: string) {
+        this.signatureProvider = undefined
         this.signature = RequestSignature.from({signer, signature})
     }
 
+    /**
+     * Account name the request claims to be signed by, `null` if the request is not signed.
+     * @note The claim is not verified, use [[verifySignature]] to check it against the signers authority.
+     */
+    public getSigner(): Name | null {
+        return this.signature ? this.signature.signer : null
+    }
+
+    /**
+     * Recover the public key that signed the request, `null` if the request is not signed.
+     */
+    public getSignerKey(): PublicKey | null {
+        if (!this.signature) {
+            return null
+        }
+        return this.signature.signature.recoverDigest(this.getSignatureDigest())
+    }
+
+    /**
+     * Verify that the request was signed by a key satisfying given authority.
+     * @param authority The authority of the claimed signer, e.g. the permission from `get_account`.
+     * @returns False if the request is not signed or the signature does not match.
+     */
+    public verifySignature(authority: AuthorityType): boolean {
+        let key: PublicKey | null
+        try {
+            key = this.getSignerKey()
+        } catch {
+            return false
+        }
+        return key !== null && Authority.from(authority).hasPermission(key)
+    }
+
     /**
      * Set the request callback, mutating.
      * @param url Where the callback should be sent.
@@ -661,6 +731,7 @@ export class SigningRequest {
     public setCallback(url: string, background: boolean) {
         this.data.callback = url
         this.data.flags.background = background
+        this.updateSignature()
     }
 
     /**
@@ -669,6 +740,7 @@ export class SigningRequest {
      */
     public setBroadcast(broadcast: boolean) {
         this.data.flags.broadcast = broadcast
+        this.updateSignature()
     }
 
     /**
@@ -826,6 +898,20 @@ export class SigningRequest {
         })
     }
 
+    /**
+     * Describe the actions in this request in a human-readable form.
+     * @param abis ABI defenitions required to decode all actions.
+     * @param signer Placeholders in actions will be resolved to signer if set.
+     * @param options Custom message templates and action renderers.
+     */
+    public describe(
+        abis: AbiMap,
+        signer?: PermissionLevelType,
+        options?: SummaryOptions
+    ): ActionSummary[] {
+        return summarizeActions(this.resolveActions(abis, signer), options)
+    }
+
     public resolveTransaction(
         abis: AbiMap,
         signer: PermissionLevelType,
@@ -1119,6 +1205,7 @@ export class SigningRequest {
         } else {
             pair.value = Bytes.from(value)
         }
+        this.updateSignature()
     }
 
     /** Set a metadata key. */
@@ -1150,6 +1237,28 @@ export class SigningRequest {
         }
     }
 
+    /** Time after which the request is no longer valid, if set. */
+    public getExpiration(): TimePointSec | undefined {
+        return this.getInfoKey('expiration', TimePointSec)
+    }
+
+    /** Set time after which the request is no longer valid, mutating. */
+    public setExpiration(expiration: TimePointType) {
+        this.setInfoKey('expiration', TimePointSec.from(expiration))
+    }
+
+    /**
+     * Whether the request has expired, requests without expiration never expire.
+     * @param now Time to check against, defaults to current time.
+     */
+    public isExpired(now: TimePointType = new Date()): boolean {
+        const expiration = this.getExpiration()
+        if (!expiration) {
+            return false
+        }
+        return expiration.toMilliseconds() < TimePointSec.from(now).toMilliseconds()
+    }
+
     /** Return a deep copy of this request. */
     public clone(): SigningRequest {
         let signature: RequestSignature | undefined
@@ -1158,7 +1267,7 @@ export class SigningRequest {
         }
         const RequestData = (this.constructor as typeof SigningRequest).storageType(this.version)
         const data = RequestData.from(JSON.parse(JSON.stringify(this.data)))
-        return new SigningRequest(
+        const request = new SigningRequest(
             this.version,
             data,
             this.scheme,
@@ -1166,6 +1275,16 @@ export class SigningRequest {
             this.abiProvider,
             signature
         )
+        request.signatureProvider = this.signatureProvider
+        return request
+    }
+
+    /** Sign the request again if it was signed using a signature provider. */
+    private updateSignature() {
+        if (this.signatureProvider) {
+            const message = this.getSignatureDigest()
+            this.signature = RequestSignature.from(this.signatureProvider.sign(message))
+        }
     }
 
     // Convenience methods.
@@ -1180,12 +1299,18 @@ export class SigningRequest {
 }
 
 export class ResolvedSigningRequest {
-    /** Recreate a resolved request from a callback payload. */
+    /**
+     * Recreate a resolved request from a callback payload.
+     * @throws If the originating request has expired.
+     */
     static async fromPayload(
         payload: CallbackPayload,
         options: SigningRequestEncodingOptions = {scheme: DEFAULT_SCHEME}
     ): Promise<ResolvedSigningRequest> {
         const request = SigningRequest.from(payload.req, options)
+        if (request.isExpired()) {
+            throw new Error(`Request expired at ${request.getExpiration()}`)
+        }
         const abis = await request.fetchAbis()
         return request.resolve(
             abis,
@@ -0,0 +1,185 @@
+/** Human-readable summaries of signing request actions. */
+
+import {ABISerializable, Name, PermissionLevel, Serializer} from '@greymass/eosio'
+
+import type {ResolvedAction} from './signing-request'
+
+/** A single named value of a summarized action. */
+export interface ActionSummaryField {
+    /** Field name, e.g. `quantity`. */
+    name: string
+    /** Field value formatted as a string. */
+    value: string
+}
+
+/** Structured, localizable description of a single action. */
+export interface ActionSummary {
+    /** The contract account of the action. */
+    account: Name
+    /** The name of the action. */
+    name: Name
+    /** The permissions authorizing the action. */
+    authorization: PermissionLevel[]
+    /** Message key identifying the template used to render the summary, e.g. `token.transfer`. */
+    key: string
+    /** Values referenced by the message template. */
+    params: Record<string, string>
+    /** All action data fields in ABI order, for detailed views. */
+    fields: ActionSummaryField[]
+    /** The summary rendered using the message templates. */
+    text: string
+}
+
+/**
+ * Renderer for a specific contract action, returns the message key
+ * and template params describing the action.
+ */
+export type ActionRenderer = (action: ResolvedAction) => {
+    key: string
+    params: Record<string, string>
+}
+
+/**
+ * Message templates keyed by summary key.
+ * Params are interpolated using `{name}` placeholders.
+ */
+export type SummaryMessages = Record<string, string>
+
+export interface SummaryOptions {
+    /** Message templates, merged with (and taking precedence over) [[DefaultSummaryMessages]]. */
+    messages?: SummaryMessages
+    /** Additional renderers keyed by `account::name`, taking precedence over the built-in ones. */
+    renderers?: Record<string, ActionRenderer>
+}
+
+/** Default english message templates. */
+export const DefaultSummaryMessages: SummaryMessages = {
+    identity: 'Sign in as {permission}',
+    'token.transfer': 'Transfer {quantity} from {from} to {to}',
+    'token.transfer_memo': 'Transfer {quantity} from {from} to {to}, memo: {memo}',
+    'system.buyrambytes': 'Buy {bytes} bytes of RAM for {receiver}, paid by {payer}',
+    'system.delegatebw':
+        'Stake {stake_cpu_quantity} for CPU and {stake_net_quantity} for NET from {from} to {receiver}',
+    'system.delegatebw_transfer':
+        'Stake and transfer {stake_cpu_quantity} for CPU and {stake_net_quantity} for NET from {from} to {receiver}',
+    'system.voteproducer': '{voter} votes for {producers}',
+    'system.voteproducer_proxy': '{voter} votes using proxy {proxy}',
+    'system.voteproducer_clear': '{voter} removes all votes',
+    action: 'Call {account}::{name}',
+}
+
+/** Built-in renderers keyed by `account::name`. */
+export const DefaultActionRenderers: Record<string, ActionRenderer> = {
+    'eosio.token::transfer': (action) => {
+        const params = stringParams(action.data)
+        return {key: params.memo ? 'token.transfer_memo' : 'token.transfer', params}
+    },
+    'eosio::buyrambytes': (action) => ({
+        key: 'system.buyrambytes',
+        params: stringParams(action.data),
+    }),
+    'eosio::delegatebw': (action) => {
+        const params = stringParams(action.data)
+        const transfer = Serializer.objectify(action.data.transfer) === true
+        return {key: transfer ? 'system.delegatebw_transfer' : 'system.delegatebw', params}
+    },
+    'eosio::voteproducer': (action) => {
+        const params = stringParams(action.data)
+        let key = 'system.voteproducer'
+        if (params.proxy) {
+            key = 'system.voteproducer_proxy'
+        } else if (!params.producers) {
+            key = 'system.voteproducer_clear'
+        }
+        return {key, params}
+    },
+}
+
+/**
+ * Summarize a resolved action.
+ * @param action The action with decoded data, see [[SigningRequest.resolveActions]].
+ * @param options Custom message templates and renderers.
+ */
+export function summarizeAction(
+    action: ResolvedAction,
+    options: SummaryOptions = {}
+): ActionSummary {
+    const messages = {...DefaultSummaryMessages, ...options.messages}
+    const renderers = {...DefaultActionRenderers, ...options.renderers}
+    const fields = Object.keys(action.data).map((name) => ({
+        name,
+        value: formatValue(action.data[name]),
+    }))
+    let rendered: {key: string; params: Record<string, string>}
+    const renderer = renderers[`${action.account}::${action.name}`]
+    if (renderer) {
+        rendered = renderer(action)
+    } else if (isIdentityAction(action)) {
+        rendered = {key: 'identity', params: {permission: formatAuth(action.authorization[0])}}
+    } else {
+        rendered = {
+            key: 'action',
+            params: {account: String(action.account), name: String(action.name)},
+        }
+    }
+    const template = messages[rendered.key] || messages['action']
+    return {
+        account: action.account,
+        name: action.name,
+        authorization: action.authorization,
+        key: rendered.key,
+        params: rendered.params,
+        fields,
+        text: formatMessage(template, {
+            account: String(action.account),
+            name: String(action.name),
+            ...rendered.params,
+        }),
+    }
+}
+
+/** Summarize a list of resolved actions, see [[summarizeAction]]. */
+export function summarizeActions(actions: ResolvedAction[], options: SummaryOptions = {}) {
+    return actions.map((action) => summarizeAction(action, options))
+}
+
+/**
+ * Interpolate `{name}` placeholders in template with params.
+ * Unknown placeholders are left as-is.
+ */
+export function formatMessage(template: string, params: Record<string, string>) {
+    return template.replace(/{([a-z0-9_]+)}/gi, (match, name) =>
+        params[name] !== undefined ? params[name] : match
+    )
+}
+
+/** Format all top-level action data values as strings. */
+function stringParams(data: Record<string, ABISerializable>) {
+    const params: Record<string, string> = {}
+    for (const key of Object.keys(data)) {
+        params[key] = formatValue(data[key])
+    }
+    return params
+}
+
+/** Format a decoded ABI value for display. */
+function formatValue(value: ABISerializable): string {
+    const object = Serializer.objectify(value)
+    if (Array.isArray(object)) {
+        return object
+            .map((item) => (typeof item === 'object' ? JSON.stringify(item) : String(item)))
+            .join(', ')
+    }
+    if (typeof object === 'object' && object !== null) {
+        return JSON.stringify(object)
+    }
+    return String(object)
+}
+
+function formatAuth(auth?: PermissionLevel) {
+    return auth ? `${auth.actor}@${auth.permission}` : ''
+}
+
+function isIdentityAction(action: ResolvedAction) {
+    return action.account.rawValue.equals(0) && action.name.equals('identity')
+}
@@ -0,0 +1,227 @@
+/** Server side verification of identity proofs against the signers on-chain authority. */
+
+import {
+    Authority,
+    AuthorityType,
+    Name,
+    PermissionLevel,
+    PermissionLevelType,
+    PublicKey,
+    TimePointSec,
+} from '@greymass/eosio'
+
+import {ChainId, ChainIdType} from './chain-id'
+import {IdentityProof, IdentityProofType} from './identity-proof'
+
+/** Permission as returned by the `get_account` RPC call. */
+export interface IdentityAccountPermission {
+    perm_name: string
+    required_auth: AuthorityType
+}
+
+/** RPC client used to look up account permissions, e.g. a `JsonRpc` instance from `@proton/js`. */
+export interface IdentityVerificationClient {
+    get_account(accountName: string): Promise<{permissions: IdentityAccountPermission[]}>
+}
+
+/**
+ * Options for [[verifyIdentityProof]]. Identity proofs do not carry a request scope,
+ * so unlike upstream ESR a proof can not be checked against the scope of an app.
+ */
+export interface VerifyIdentityProofOptions {
+    /** Client used to fetch the signers account. */
+    client: IdentityVerificationClient
+    /** Chain the proof must be signed for. */
+    chainId: ChainIdType
+    /**
+     * Maximum lifetime of the proof in seconds, proofs expiring further than
+     * this in the future are rejected. No limit if omitted.
+     */
+    maxAge?: number
+    /** Time to verify expiry against, defaults to system time. */
+    currentTime?: Date
+    /** How many levels of linked account permissions to follow, defaults to 4. */
+    maxDepth?: number
+}
+
+/** The verified signer of an identity proof. */
+export interface VerifiedIdentity {
+    /** Account that signed the proof. */
+    actor: Name
+    /** Permission that signed the proof. */
+    permission: Name
+    /** Actor and permission as a permission level. */
+    signer: PermissionLevel
+    /** Key that signed the proof. */
+    publicKey: PublicKey
+    /** Chain the proof was signed for. */
+    chainId: ChainId
+    /** Time the proof expires. */
+    expiration: TimePointSec
+    /** The verified proof. */
+    proof: IdentityProof
+}
+
+/** Thrown when an identity proof is malformed, expired or not signed by the claimed permission. */
+export class IdentityProofError extends Error {
+    /** HTTP status code, used by web frameworks when passing the error on to error handlers. */
+    public readonly status = 401
+    /** Alias of status for frameworks that use `statusCode`, e.g. fastify. */
+    public readonly statusCode = 401
+
+    constructor(reason: string) {
+        super(`Invalid identity proof: ${reason}`)
+        this.name = 'IdentityProofError'
+    }
+}
+
+/**
+ * Verify an identity proof against the signers on-chain authority.
+ *
+ * Resolves the signing permission using `get_account` and checks that the key
+ * that signed the proof satisfies its threshold, either directly or through
+ * linked account permissions.
+ *
+ * ```ts
+ * const {actor, permission} = await verifyIdentityProof(req.headers.authorization, {
+ *     client: new JsonRpc('https://proton.greymass.com'),
+ *     chainId: ChainName.PROTON,
+ *     maxAge: 60 * 60,
+ * })
+ * ```
+ * @param proof The proof, usually an `EOSIO <base64payload>` authorization header string.
+ * @throws IdentityProofError if the proof is invalid, RPC errors are passed through.
+ */
+export async function verifyIdentityProof(
+    proof: IdentityProofType,
+    options: VerifyIdentityProofOptions
+): Promise<VerifiedIdentity> {
+    let decoded: IdentityProof
+    try {
+        decoded = IdentityProof.from(proof)
+    } catch (error) {
+        throw new IdentityProofError((error as Error).message || 'Malformed proof')
+    }
+    if (!decoded.chainId.equals(ChainId.from(options.chainId))) {
+        throw new IdentityProofError(`Signed for wrong chain ${decoded.chainId}`)
+    }
+    const now = (options.currentTime || new Date()).getTime()
+    const expires = decoded.expiration.toMilliseconds()
+    if (now >= expires) {
+        throw new IdentityProofError(`Expired at ${decoded.expiration}`)
+    }
+    if (options.maxAge !== undefined && expires - now > options.maxAge * 1000) {
+        throw new IdentityProofError(`Expiration exceeds max age of ${options.maxAge} seconds`)
+    }
+    let publicKey: PublicKey
+    try {
+        publicKey = decoded.recover()
+    } catch (error) {
+        throw new IdentityProofError((error as Error).message || 'Unable to recover key')
+    }
+    const signer = decoded.signer
+    if (!(await verifyPermissionKey(publicKey, signer, options))) {
+        throw new IdentityProofError(`Not signed by ${signer}`)
+    }
+    return {
+        actor: signer.actor,
+        permission: signer.permission,
+        signer,
+        publicKey,
+        chainId: decoded.chainId,
+        expiration: decoded.expiration,
+        proof: decoded,
+    }
+}
+
+/**
+ * Check whether a key satisfies the on-chain authority of a permission, either
+ * directly or through linked account permissions.
+ * @param publicKey The key that signed.
+ * @param permission The permission the key signed for.
+ * @param options.client Client used to fetch the accounts.
+ * @param options.maxDepth How many levels of linked account permissions to follow, defaults to 4.
+ */
+export async function verifyPermissionKey(
+    publicKey: PublicKey,
+    permission: PermissionLevelType,
+    options: Pick<VerifyIdentityProofOptions, 'client' | 'maxDepth'>
+): Promise<boolean> {
+    const accounts = new Map<string, Promise<IdentityAccountPermission[]>>()
+    const getPermission = async (level: PermissionLevel) => {
+        const actor = String(level.actor)
+        let permissions = accounts.get(actor)
+        if (!permissions) {
+            permissions = options.client.get_account(actor).then((account) => account.permissions)
+            accounts.set(actor, permissions)
+        }
+        return (await permissions).find((perm) => perm.perm_name === String(level.permission))
+    }
+    const maxDepth = options.maxDepth !== undefined ? options.maxDepth : 4
+    const satisfies = async (level: PermissionLevel, depth: number): Promise<boolean> => {
+        const required = await getPermission(level)
+        if (!required) {
+            return false
+        }
+        const auth = Authority.from(required.required_auth)
+        let weight = auth.keyWeight(publicKey)
+        if (depth < maxDepth) {
+            for (const {permission: linked, weight: linkedWeight} of auth.accounts) {
+                if (weight >= auth.threshold.toNumber()) {
+                    break
+                }
+                if (await satisfies(linked, depth + 1)) {
+                    weight += linkedWeight.toNumber()
+                }
+            }
+        }
+        return weight >= auth.threshold.toNumber()
+    }
+    return satisfies(PermissionLevel.from(permission), 0)
+}
+
+export interface IdentityProofMiddlewareOptions extends VerifyIdentityProofOptions {
+    /** Header to read the proof from, defaults to `authorization`. */
+    header?: string
+    /** Property the verified identity is assigned to on the request, defaults to `identity`. */
+    property?: string
+    /** Whether to let requests without a proof through, defaults to false. */
+    optional?: boolean
+}
+
+type IncomingRequest = {headers: {[name: string]: string | string[] | undefined}} & {
+    [key: string]: any
+}
+
+/**
+ * Create a middleware verifying identity proofs passed in a request header.
+ *
+ * The returned function has the `(request, response, next)` signature used by both
+ * express style routers and fastify `preHandler` hooks. On success the verified
+ * identity is assigned to `request.identity`, on failure `next` is called with an
+ * [[IdentityProofError]] carrying a 401 status.
+ *
+ * ```ts
+ * app.get('/me', identityProofMiddleware({client, chainId}), (req, res) => {
+ *     res.json({actor: String(req.identity.actor)})
+ * })
+ * ```
+ */
+export function identityProofMiddleware(options: IdentityProofMiddlewareOptions) {
+    const header = (options.header || 'authorization').toLowerCase()
+    const property = options.property || 'identity'
+    return (request: IncomingRequest, _response: unknown, next: (error?: Error) => void) => {
+        let value = request.headers[header]
+        if (Array.isArray(value)) {
+            value = value[0]
+        }
+        if (!value) {
+            next(options.optional ? undefined : new IdentityProofError(`Missing ${header} header`))
+            return
+        }
+        verifyIdentityProof(value, options).then((identity) => {
+            request[property] = identity
+            next()
+        }, next)
+    }
+}
@@ -0,0 +1,110 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import abiProvider from './utils/mock-abi-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {
+    PlaceholderAuth,
+    ResolvedSigningRequestBatch,
+    SigningRequest,
+    SigningRequestBatch,
+    SigningRequestEncodingOptions,
+} from '../src'
+import {PrivateKey} from '@greymass/eosio'
+
+const options: SigningRequestEncodingOptions = {
+    abiProvider,
+    zlib,
+    scheme: 'esr',
+}
+
+const key = PrivateKey.from('5KQvfsPJ9YvGuVbLRLXVWPNubed6FWvV8yax6cNSJEzB4co3zFu')
+const signer = {actor: 'foo', permission: 'active'}
+const ctx = {expiration: '2021-01-01T00:00:00', ref_block_num: 1234, ref_block_prefix: 56789}
+
+function transfer(memo: string) {
+    return SigningRequest.create(
+        {
+            action: {
+                account: 'eosio.token',
+                name: 'transfer',
+                authorization: [PlaceholderAuth],
+                data: {from: '............1', to: 'bar', quantity: '1.000 EOS', memo},
+            },
+            callback: {url: `https://example.com/${memo}`, background: true},
+        },
+        options
+    )
+}
+
+describe('batch', function () {
+    it('should encode and decode', async function () {
+        const requests = await Promise.all(['one', 'two', 'three'].map(transfer))
+        const batch = SigningRequestBatch.create(requests, options)
+        const uri = batch.encode()
+        assert.equal(SigningRequestBatch.isBatch(uri), true)
+        assert.equal(SigningRequestBatch.isBatch(requests[0].encode()), false)
+        const decoded = SigningRequestBatch.from(uri, options)
+        assert.equal(decoded.requests.length, 3)
+        for (const [idx, request] of decoded.requests.entries()) {
+            assert.equal(request.encode(), requests[idx].encode())
+        }
+        assert.equal(decoded.encode(), uri)
+        assert.throws(() => SigningRequest.from(uri, options), /must be decoded using/)
+        assert.deepEqual(decoded.getRequiredAbis().map(String), ['eosio.token'])
+    })
+
+    it('should correlate callback payloads', async function () {
+        const requests = await Promise.all(['one', 'two', 'three'].map(transfer))
+        const batch = SigningRequestBatch.from(
+            SigningRequestBatch.create(requests, options).encode(),
+            options
+        )
+        const abis = await batch.fetchAbis()
+        const resolved = batch.resolve(abis, signer, ctx)
+        const signatures = resolved.requests.map((r) => [key.signDigest(r.signingDigest)])
+        const callbacks = resolved.getCallbacks(signatures)
+        assert.deepEqual(
+            callbacks.map((callback) => callback!.payload.bi),
+            ['0', '1', '2']
+        )
+        assert.equal(callbacks[1]!.url, 'https://example.com/two')
+
+        const payloads = callbacks.map((callback) => callback!.payload).reverse()
+        const recreated = await ResolvedSigningRequestBatch.fromPayloads(batch, payloads, options)
+        assert.deepEqual(
+            recreated.requests.map((r) => r.resolvedTransaction.actions[0].data.memo),
+            ['one', 'two', 'three']
+        )
+        assert.deepEqual(
+            recreated.requests.map((r) => String(r.transaction.id)),
+            resolved.requests.map((r) => String(r.transaction.id))
+        )
+
+        delete payloads[0].bi
+        assert.equal(batch.getRequestIndex(payloads[0]), 2)
+        payloads[1].bi = '0'
+        assert.throws(() => batch.getRequestIndex(payloads[1]), /does not match batch request 0/)
+        await assert.rejects(
+            ResolvedSigningRequestBatch.fromPayloads(
+                batch,
+                [payloads[0], payloads[0], payloads[2]],
+                options
+            ),
+            /Duplicate callback payload for batch request 2/
+        )
+    })
+
+    it('should reject invalid batches', async function () {
+        const identity = SigningRequest.identity({callback: 'https://example.com'}, options)
+        assert.throws(() => SigningRequestBatch.create([]), /Must contain at least one request/)
+        assert.throws(
+            () => SigningRequestBatch.create([identity]),
+            /Identity requests can not be batched/
+        )
+        for (const uri of ['esr', 'esr:', 'esr://']) {
+            assert.throws(() => SigningRequestBatch.from(uri), /Missing payload/)
+        }
+    })
+})
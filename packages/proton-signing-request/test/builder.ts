@@ -0,0 +1,142 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import abiProvider from './utils/mock-abi-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {
+    ChainName,
+    PlaceholderAuth,
+    SigningRequest,
+    SigningRequestBuilder,
+    SigningRequestEncodingOptions,
+} from '../src'
+import {TimePointSec} from '@greymass/eosio'
+
+const options: SigningRequestEncodingOptions = {
+    abiProvider,
+    zlib,
+    scheme: 'esr',
+}
+
+const transfer = {
+    account: 'eosio.token',
+    name: 'transfer',
+    authorization: [{actor: 'foo', permission: 'active'}],
+    data: {from: 'foo', to: 'bar', quantity: '1.000 EOS', memo: 'hello there'},
+}
+
+const placeholderTransfer = {
+    account: 'eosio.token',
+    name: 'transfer',
+    authorization: [PlaceholderAuth],
+    data: {from: '............1', to: 'bar', quantity: '1.000 EOS', memo: 'hello there'},
+}
+
+describe('builder', function () {
+    it('should match create from action', async function () {
+        const built = await new SigningRequestBuilder().action(transfer).build(options)
+        const created = await SigningRequest.create({action: transfer}, options)
+        assert.equal(built.encode(), created.encode())
+    })
+
+    it('should match create from actions', async function () {
+        const built = await new SigningRequestBuilder()
+            .action(transfer)
+            .actions([placeholderTransfer])
+            .callback('https://example.com/?tx={{tx}}', true)
+            .broadcast(false)
+            .build(options)
+        const created = await SigningRequest.create(
+            {
+                actions: [transfer, placeholderTransfer],
+                callback: {url: 'https://example.com/?tx={{tx}}', background: true},
+                broadcast: false,
+            },
+            options
+        )
+        assert.equal(built.encode(), created.encode())
+    })
+
+    it('should match create for identity', async function () {
+        const built = await new SigningRequestBuilder()
+            .identity({actor: 'foo', permission: 'bar'})
+            .callback('https://example.com')
+            .info('foo', 'bar')
+            .build(options)
+        const created = await SigningRequest.create(
+            {
+                identity: {permission: {actor: 'foo', permission: 'bar'}},
+                callback: 'https://example.com',
+                info: {foo: 'bar'},
+            },
+            options
+        )
+        assert.equal(built.encode(), created.encode())
+        assert.equal(built.isIdentity(), true)
+    })
+
+    it('should match create for multi-chain requests', async function () {
+        const built = new SigningRequestBuilder()
+            .chains([ChainName.EOS, ChainName.PROTON])
+            .identity()
+            .callback('https://example.com')
+            .buildSync(options)
+        const created = SigningRequest.createSync(
+            {
+                identity: {},
+                chainId: null,
+                chainIds: [ChainName.EOS, ChainName.PROTON],
+                callback: 'https://example.com',
+            },
+            options
+        )
+        assert.equal(built.encode(), created.encode())
+        assert.equal(built.isMultiChain(), true)
+        assert.deepEqual(built.getChainIds()!.map(String), created.getChainIds()!.map(String))
+    })
+
+    it('should set expiration', async function () {
+        const now = new Date('2021-01-01T00:00:00Z')
+        const args = new SigningRequestBuilder().action(transfer).expireIn(60).toArguments(now)
+        const request = await SigningRequest.create(args, options)
+        const expiration = request.getInfoKey('expiration', TimePointSec)
+        assert.equal(String(expiration), '2021-01-01T00:01:00')
+    })
+
+    it('should validate combinations', function () {
+        assert.throws(
+            () => new SigningRequestBuilder().identity().action(transfer),
+            /Identity requests can not contain actions/
+        )
+        assert.throws(
+            () => new SigningRequestBuilder().action(transfer).identity(),
+            /Identity requests can not contain actions/
+        )
+        assert.throws(
+            () => new SigningRequestBuilder().identity().broadcast(),
+            /Identity requests can not be broadcast/
+        )
+        assert.throws(
+            () => new SigningRequestBuilder().chain(ChainName.EOS).chains([ChainName.PROTON]),
+            /Can not constrain chains when a chain id has been set/
+        )
+        assert.throws(
+            () => new SigningRequestBuilder().chains([ChainName.PROTON]).chain(ChainName.EOS),
+            /Can not set a chain id when chains\(\) has been used/
+        )
+        assert.throws(
+            () => new SigningRequestBuilder().callback('', true),
+            /Background flag set without a callback url/
+        )
+        assert.throws(
+            () => new SigningRequestBuilder().info('chain_ids', 'foo'),
+            /Info key chain_ids is reserved, use chains\(\) instead/
+        )
+        assert.throws(() => new SigningRequestBuilder().expireIn(0), /Expiry must be a positive/)
+        assert.throws(
+            () => new SigningRequestBuilder().toArguments(),
+            /Must have at least one action or be an identity request/
+        )
+    })
+})
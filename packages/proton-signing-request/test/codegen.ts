@@ -0,0 +1,156 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {readFileSync} from 'fs'
+import {join as joinPath} from 'path'
+import * as ts from 'typescript'
+import {Action, PermissionLevel, Serializer} from '@greymass/eosio'
+
+import {generateContractTypes} from '../src'
+
+const tokenAbi = JSON.parse(readFileSync(joinPath(__dirname, 'abis', 'eosio.token.json'), 'utf8'))
+
+/** Compile a generated module and return its exports. */
+function load(source: string) {
+    const {outputText} = ts.transpileModule(source, {
+        compilerOptions: {module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2017},
+    })
+    const module = {exports: {} as any}
+    new Function('exports', 'module', 'require', outputText)(module.exports, module, require)
+    return module.exports
+}
+
+/** Type check in-memory modules in strict mode, imports resolve from the package node_modules. */
+function typeCheck(files: {[name: string]: string}) {
+    const options: ts.CompilerOptions = {
+        strict: true,
+        noEmit: true,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        module: ts.ModuleKind.CommonJS,
+        moduleResolution: ts.ModuleResolutionKind.Node10,
+        target: ts.ScriptTarget.ES2017,
+        types: [],
+    }
+    const paths = Object.keys(files).map((name) => joinPath(__dirname, name))
+    const host = ts.createCompilerHost(options)
+    const {fileExists, readFile, getSourceFile} = host
+    const source = (fileName: string) => files[fileName.slice(__dirname.length + 1)]
+    host.fileExists = (fileName) => paths.includes(fileName) || fileExists(fileName)
+    host.readFile = (fileName) => (paths.includes(fileName) ? source(fileName) : readFile(fileName))
+    host.getSourceFile = (fileName, languageVersion, ...args) =>
+        paths.includes(fileName)
+            ? ts.createSourceFile(fileName, source(fileName), languageVersion)
+            : getSourceFile(fileName, languageVersion, ...args)
+    const program = ts.createProgram(paths, options, host)
+    return ts
+        .getPreEmitDiagnostics(program)
+        .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))
+}
+
+describe('codegen', function () {
+    it('should generate action builders', function () {
+        const source = generateContractTypes('eosio.token', tokenAbi)
+        assert.ok(source.includes("export const account = 'eosio.token'"))
+        assert.ok(
+            source.includes(
+                'export interface Transfer {\n' +
+                    '    from: NameType\n' +
+                    '    to: NameType\n' +
+                    '    quantity: AssetType\n' +
+                    '    memo: string\n' +
+                    '}'
+            )
+        )
+        assert.ok(source.includes('    symbol: Asset.SymbolType\n'))
+        assert.ok(
+            source.includes(
+                'export function transfer(data: Transfer, authorization: Authorization) {'
+            )
+        )
+        assert.ok(
+            source.includes(
+                "import type {AnyAction, Asset, AssetType, NameType, PermissionLevelType} from '@greymass/eosio'"
+            )
+        )
+        const eosioToken = load(source)
+        const auth = PermissionLevel.from('alice@active')
+        const data = {from: 'alice', to: 'bob', quantity: '1.0000 XPR', memo: 'thanks'}
+        const action = eosioToken.transfer(data, auth)
+        assert.deepEqual(action, {
+            account: 'eosio.token',
+            name: 'transfer',
+            authorization: [auth],
+            data,
+        })
+        const encoded = Action.from(action, tokenAbi)
+        assert.deepEqual(Serializer.objectify(encoded.decodeData(tokenAbi)), data)
+    })
+
+    it('should type check action data', function () {
+        this.timeout(30 * 1000)
+        const usage = (memo: string) =>
+            "import * as eosioToken from './eosio-token'\n" +
+            "eosioToken.transfer({from: 'alice', to: 'bob', quantity: '1.0000 XPR'" +
+            memo +
+            "}, {actor: 'alice', permission: 'active'})\n"
+        const eosioToken = generateContractTypes('eosio.token', tokenAbi)
+        assert.deepEqual(
+            typeCheck({'eosio-token.ts': eosioToken, 'usage.ts': usage(", memo: 'thanks'")}),
+            []
+        )
+        const diagnostics = typeCheck({'eosio-token.ts': eosioToken, 'usage.ts': usage('')})
+        assert.equal(diagnostics.length, 1)
+        assert.match(diagnostics[0], /Property 'memo' is missing/)
+    })
+
+    it('should map abi types', function () {
+        const source = generateContractTypes(
+            'my.contract',
+            {
+                abi: {
+                    version: 'eosio::abi/1.1',
+                    types: [{new_type_name: 'account_list', type: 'name[]'}],
+                    variants: [{name: 'amount', types: ['uint64', 'asset']}],
+                    structs: [
+                        {name: 'base_args', base: '', fields: [{name: 'owner', type: 'name'}]},
+                        {
+                            name: 'delete',
+                            base: 'base_args',
+                            fields: [
+                                {name: 'accounts', type: 'account_list'},
+                                {name: 'amounts', type: 'amount?[]'},
+                                {name: 'note', type: 'string?'},
+                                {name: 'extra', type: 'checksum256$'},
+                                {name: 'unknown', type: 'not_a_type'},
+                            ],
+                        },
+                        {name: 'actions', base: '', fields: []},
+                    ],
+                    actions: [
+                        {name: 'delete', type: 'delete', ricardian_contract: ''},
+                        {name: 'act.other', type: 'actions', ricardian_contract: ''},
+                    ],
+                },
+            },
+            {importFrom: '@proton/js'}
+        )
+        assert.ok(source.includes('export type AccountList = NameType[]'))
+        assert.ok(
+            source.includes("export type Amount = ['uint64', UInt64Type] | ['asset', AssetType]")
+        )
+        assert.ok(source.includes('export interface Delete extends BaseArgs {'))
+        assert.ok(source.includes('    accounts: AccountList\n'))
+        assert.ok(source.includes('    amounts: (Amount | null)[]\n'))
+        assert.ok(source.includes('    note?: string | null\n'))
+        assert.ok(source.includes('    extra?: Checksum256Type\n'))
+        assert.ok(source.includes('    unknown: unknown\n'))
+        // names used by the generated module and keywords are renamed
+        assert.ok(source.includes('export interface Actions2 {}'))
+        assert.ok(source.includes("    'act.other': Actions2\n"))
+        assert.ok(source.includes('export function delete_(data: Delete'))
+        assert.ok(source.includes('export function actOther(data: Actions2'))
+        assert.ok(source.includes("} from '@proton/js'"))
+        const contract = load(source)
+        assert.equal(contract.actOther({}, [PermissionLevel.from('a@b')]).name, 'act.other')
+    })
+})
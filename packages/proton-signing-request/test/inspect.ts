@@ -0,0 +1,53 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import abiProvider from './utils/mock-abi-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {formatInspection, inspectRequest, SigningRequest} from '../src'
+
+describe('inspect', function () {
+    it('should inspect requests', async function () {
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [{actor: '............1', permission: '............2'}],
+                    data: {from: '............1', to: 'bar', quantity: '1.000 EOS', memo: ''},
+                },
+                callback: {url: 'https://example.com/cb', background: true},
+                info: {foo: 'bar'},
+            },
+            {abiProvider, zlib, scheme: 'proton'}
+        )
+        const uri = request.encode()
+        const abis = await request.fetchAbis()
+
+        const basic = inspectRequest(uri, {zlib})
+        assert.equal(basic.scheme, 'proton')
+        assert.equal(basic.chainName, 'EOS')
+        assert.deepEqual(basic.flags, {broadcast: true, background: true})
+        assert.equal(basic.callback, 'https://example.com/cb')
+        assert.deepEqual(basic.info, [{key: 'foo', value: 'bar', encoding: 'utf8'}])
+        assert.equal(basic.actions[0].authorization[0], '............1@............2')
+        assert.equal(basic.resolvedActions, undefined)
+
+        const resolved = inspectRequest(uri, {
+            zlib,
+            abis,
+            signer: {actor: 'alice', permission: 'owner'},
+        })
+        assert.equal(resolved.signer, 'alice@owner')
+        assert.equal(resolved.resolvedActions![0].summary, 'Transfer 1.000 EOS from alice to bar')
+        assert.deepEqual(
+            resolved.placeholders!.map(({path, value}) => `${path}=${value}`),
+            ['authorization[0].actor=alice', 'authorization[0].permission=owner', 'data.from=alice']
+        )
+        assert.ok(formatInspection(resolved).includes('data.from ............1 -> alice'))
+    })
+
+    it('should reject unknown schemes', function () {
+        assert.throws(() => inspectRequest('foo://bar'))
+    })
+})
@@ -8,7 +8,7 @@ import zlib from './utils/node-zlib-provider'
 import {SignatureProvider, SigningRequestEncodingOptions} from '../src'
 
 import * as TSModule from '../src'
-import {Serializer, Signature} from '@greymass/eosio'
+import {PrivateKey, Serializer, Signature} from '@greymass/eosio'
 
 let {SigningRequest} = TSModule
 const {PlaceholderAuth, PlaceholderName} = TSModule
@@ -382,6 +382,37 @@ describe('signing request', function () {
         assert.deepStrictEqual(recode(req2.signature), mockSig)
     })
 
+    it('should verify request signatures', async function () {
+        const key = PrivateKey.from('5KQvfsPJ9YvGuVbLRLXVWPNubed6FWvV8yax6cNSJEzB4co3zFu')
+        const other = PrivateKey.from('5JW71y3njNNVf9fiGaufq8Up5XiGk68jZ5tYhKpy69yyU9cr7n9')
+        const authority = {threshold: 1, keys: [{key: key.toPublic(), weight: 1}]}
+        const signatureProvider: SignatureProvider = {
+            sign(message) {
+                return {signer: 'myapp.xpr', signature: key.signDigest(message)}
+            },
+        }
+        const req = await SigningRequest.identity({callback: 'https://example.com'}, options)
+        assert.strictEqual(req.getSigner(), null)
+        assert.strictEqual(req.getSignerKey(), null)
+        assert.strictEqual(req.verifySignature(authority), false)
+        req.sign(signatureProvider)
+        assert.strictEqual(String(req.getSigner()), 'myapp.xpr')
+        assert.strictEqual(String(req.getSignerKey()), String(key.toPublic()))
+        assert.strictEqual(req.verifySignature(authority), true)
+        assert.strictEqual(
+            req.verifySignature({threshold: 1, keys: [{key: other.toPublic(), weight: 1}]}),
+            false
+        )
+        // modified requests are signed again
+        req.setInfoKey('foo', 'bar')
+        req.clone().setCallback('https://example.com/other', true)
+        const decoded = SigningRequest.from(req.encode(), options)
+        assert.strictEqual(decoded.verifySignature(authority), true)
+        // but not once decoded
+        decoded.setInfoKey('foo', 'baz')
+        assert.strictEqual(decoded.verifySignature(authority), false)
+    })
+
     it('should encode and decode test requests', async function () {
         const req1uri =
             'esr://gmNgZGBY1mTC_MoglIGBIVzX5uxZRqAQGMBoExgDAjRi4fwAVz93ICUckpGYl12skJZfpFCSkaqQllmcwczAAAA'
@@ -549,6 +580,44 @@ describe('signing request', function () {
         assert.equal(callback!.url, expected)
     })
 
+    it('should expire requests', async function () {
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [{actor: 'foo', permission: 'active'}],
+                    data: {from: 'foo', to: 'bar', quantity: '1.000 EOS', memo: 'hello there'},
+                },
+                callback: {url: 'https://example.com', background: true},
+                expiration: '2020-01-01T00:00:00',
+            },
+            options
+        )
+        const decoded = SigningRequest.from(request.encode(), options)
+        assert.strictEqual(String(decoded.getExpiration()), '2020-01-01T00:00:00')
+        assert.strictEqual(decoded.isExpired('2019-12-31T23:59:59'), false)
+        assert.strictEqual(decoded.isExpired('2020-01-01T00:00:01'), true)
+        assert.strictEqual(decoded.isExpired(), true)
+
+        const abis = await decoded.fetchAbis()
+        const resolved = decoded.resolve(
+            abis,
+            {actor: 'foo', permission: 'active'},
+            {timestamp, block_num: 1234, ref_block_prefix: 56789}
+        )
+        const callback = resolved.getCallback([
+            'SIG_K1_K8Wm5AXSQdKYVyYFPCYbMZurcJQXZaSgXoqXAKE6uxR6Jot7otVzS55JGRhixCwNGxaGezrVckDgh88xTsiu4wzzZuP9JE',
+        ])
+        await assert.rejects(
+            TSModule.ResolvedSigningRequest.fromPayload(callback!.payload, options),
+            /Request expired at 2020-01-01T00:00:00/
+        )
+
+        decoded.setExpiration(new Date(Date.now() + 60 * 1000))
+        assert.strictEqual(decoded.isExpired(), false)
+    })
+
     // it('should handle scoped id requests', async function () {
     //     const scope = Name.from(UInt64.from('18446744073709551615'))
     //     const req = await SigningRequest.create(
@@ -0,0 +1,157 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import abiProvider from './utils/mock-abi-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {
+    Base64u,
+    CallbackPayload,
+    ChainName,
+    SignInAbi,
+    SignInChallenge,
+    SignInService,
+    SigningRequest,
+    SigningRequestEncodingOptions,
+} from '../src'
+import {PrivateKey} from '@greymass/eosio'
+import {createHmac} from 'crypto'
+
+const options: SigningRequestEncodingOptions = {
+    abiProvider,
+    zlib,
+    scheme: 'esr',
+}
+
+const key = PrivateKey.from('5KQvfsPJ9YvGuVbLRLXVWPNubed6FWvV8yax6cNSJEzB4co3zFu')
+const signer = {actor: 'foo', permission: 'active'}
+const ctx = {
+    expiration: new Date(Date.now() + 60 * 1000),
+    ref_block_num: 1234,
+    ref_block_prefix: 56789,
+}
+
+const client = {
+    async get_account() {
+        return {
+            permissions: [
+                {
+                    perm_name: 'active',
+                    required_auth: {threshold: 1, keys: [{key: key.toPublic(), weight: 1}]},
+                },
+            ],
+        }
+    },
+}
+
+function createService(domain = 'app.example.com') {
+    return new SignInService({
+        domain,
+        contract: 'signin',
+        chainId: ChainName.PROTON,
+        client,
+        secret: 'correct horse battery staple',
+        encoding: options,
+    })
+}
+
+/** Create a request signing the challenge, like link.login does. */
+function challengeRequest(challenge: SignInChallenge | string) {
+    return SigningRequest.create(
+        {
+            action: SignInChallenge.from(challenge).action,
+            chainId: ChainName.PROTON,
+            broadcast: false,
+            callback: 'https://example.com',
+        },
+        options
+    )
+}
+
+/** Respond to a challenge like a wallet would. */
+async function respond(
+    challenge: SignInChallenge | string,
+    signingKey = key
+): Promise<CallbackPayload> {
+    const request = await challengeRequest(challenge)
+    const resolved = request.resolve(new Map([['signin', SignInAbi]]), signer, ctx)
+    const signature = signingKey.signDigest(resolved.signingDigest)
+    return resolved.getCallback([signature])!.payload
+}
+
+describe('sign in', function () {
+    it('should sign in', async function () {
+        const service = createService()
+        const challenge = await service.createChallenge()
+        assert.equal(SignInChallenge.fromString(String(challenge)).equals(challenge), true)
+        assert.match(String(challenge), /^[\w-]+$/)
+        const result = await service.verify(await respond(String(challenge)))
+        assert.equal(String(result.signer), 'foo@active')
+        assert.equal(result.publicKey.equals(key.toPublic()), true)
+        assert.equal(result.challenge.nonce.equals(challenge.nonce), true)
+        assert.match(result.token, /^[\w-]+\.[\w-]+$/)
+        const [data, mac] = result.token.split('.')
+        const expected = createHmac('sha256', 'correct horse battery staple')
+            .update(Base64u.decode(data))
+            .digest()
+        assert.deepEqual(Base64u.decode(mac), new Uint8Array(expected))
+        const session = service.verifyToken(result.token)
+        assert.equal(String(session.actor), 'foo')
+        assert.equal(String(session.expiration), String(result.expiration))
+    })
+
+    it('should reject replayed and foreign challenges', async function () {
+        const service = createService()
+        const payload = await respond(await service.createChallenge())
+        await service.verify(payload)
+        await assert.rejects(service.verify(payload), /Challenge unknown or already used/)
+
+        const foreign = await createService('evil.example.com').createChallenge()
+        await assert.rejects(service.verify(await respond(foreign)), /issued for evil/)
+
+        const stale = await service.createChallenge(new Date(Date.now() - 10 * 60 * 1000))
+        await assert.rejects(service.verify(await respond(stale)), /has expired/)
+
+        const other = PrivateKey.generate('K1')
+        const unauthorized = await respond(await service.createChallenge(), other)
+        await assert.rejects(service.verify(unauthorized), /Not signed by foo@active/)
+    })
+
+    it('should reject signatures replayed with another challenge', async function () {
+        const service = createService()
+        // a signature captured from an earlier sign-in, paired with a fresh challenge
+        const captured = await respond(await service.createChallenge())
+        const replayed = {
+            ...captured,
+            req: (await challengeRequest(await service.createChallenge())).encode(),
+        }
+        await assert.rejects(service.verify(replayed), /Not signed by foo@active/)
+        // identity proofs do not sign the challenge
+        const identity = SigningRequest.identity(
+            {chainId: ChainName.PROTON, callback: 'https://example.com'},
+            options
+        ).resolve(new Map(), signer, ctx)
+        const proof = identity.getCallback([key.signDigest(identity.signingDigest)])!.payload
+        await assert.rejects(service.verify(proof), /Unexpected action/)
+    })
+
+    it('should reject invalid tokens', async function () {
+        const service = createService()
+        const {token} = await service.verify(await respond(await service.createChallenge()))
+        const [data, mac] = token.split('.')
+        assert.throws(() => service.verifyToken(`${data}.${mac.slice(1)}`), /Invalid token/)
+        assert.throws(() => service.verifyToken('garbage'), /Invalid token/)
+        assert.throws(
+            () => service.verifyToken(token, new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)),
+            /Token expired/
+        )
+        const other = new SignInService({
+            domain: 'app.example.com',
+            contract: 'signin',
+            chainId: ChainName.PROTON,
+            client,
+            secret: 'some other secret value',
+        })
+        assert.throws(() => other.verifyToken(token), /Invalid signature/)
+    })
+})
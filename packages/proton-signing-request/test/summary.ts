@@ -0,0 +1,137 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import abiProvider from './utils/mock-abi-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {formatMessage, PlaceholderAuth, SigningRequest, SigningRequestEncodingOptions} from '../src'
+
+const options: SigningRequestEncodingOptions = {
+    abiProvider,
+    zlib,
+    scheme: 'esr',
+}
+
+describe('summary', function () {
+    it('should describe token transfers', async function () {
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [PlaceholderAuth],
+                    data: {
+                        from: '............1',
+                        to: 'bob',
+                        quantity: '1.0000 XPR',
+                        memo: 'thanks',
+                    },
+                },
+            },
+            options
+        )
+        const abis = await request.fetchAbis()
+        const [summary] = request.describe(abis, {actor: 'alice', permission: 'active'})
+        assert.equal(summary.key, 'token.transfer_memo')
+        assert.equal(summary.text, 'Transfer 1.0000 XPR from alice to bob, memo: thanks')
+        assert.deepEqual(summary.params, {
+            from: 'alice',
+            to: 'bob',
+            quantity: '1.0000 XPR',
+            memo: 'thanks',
+        })
+        assert.deepEqual(
+            summary.fields.map(({name}) => name),
+            ['from', 'to', 'quantity', 'memo']
+        )
+    })
+
+    it('should describe system actions', async function () {
+        const auth = [{actor: 'alice', permission: 'active'}]
+        const request = await SigningRequest.create(
+            {
+                actions: [
+                    {
+                        account: 'eosio',
+                        name: 'buyrambytes',
+                        authorization: auth,
+                        data: {payer: 'alice', receiver: 'bob', bytes: 4096},
+                    },
+                    {
+                        account: 'eosio',
+                        name: 'delegatebw',
+                        authorization: auth,
+                        data: {
+                            from: 'alice',
+                            receiver: 'bob',
+                            stake_net_quantity: '1.0000 XPR',
+                            stake_cpu_quantity: '2.0000 XPR',
+                            transfer: true,
+                        },
+                    },
+                    {
+                        account: 'eosio',
+                        name: 'voteproducer',
+                        authorization: auth,
+                        data: {voter: 'alice', proxy: '', producers: ['bp1', 'bp2']},
+                    },
+                    {
+                        account: 'eosio',
+                        name: 'voteproducer',
+                        authorization: auth,
+                        data: {voter: 'alice', proxy: '', producers: []},
+                    },
+                ],
+            },
+            options
+        )
+        const abis = await request.fetchAbis()
+        assert.deepEqual(
+            request.describe(abis).map(({text}) => text),
+            [
+                'Buy 4096 bytes of RAM for bob, paid by alice',
+                'Stake and transfer 2.0000 XPR for CPU and 1.0000 XPR for NET from alice to bob',
+                'alice votes for bp1, bp2',
+                'alice removes all votes',
+            ]
+        )
+    })
+
+    it('should use custom messages and fallback renderer', async function () {
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'issue',
+                    authorization: [{actor: 'alice', permission: 'active'}],
+                    data: {to: 'alice', quantity: '1.0000 XPR', memo: ''},
+                },
+            },
+            options
+        )
+        const abis = await request.fetchAbis()
+        const [summary] = request.describe(abis, undefined, {
+            messages: {action: 'Appel de {account}::{name}'},
+        })
+        assert.equal(summary.key, 'action')
+        assert.equal(summary.text, 'Appel de eosio.token::issue')
+        assert.deepEqual(summary.fields, [
+            {name: 'to', value: 'alice'},
+            {name: 'quantity', value: '1.0000 XPR'},
+            {name: 'memo', value: ''},
+        ])
+    })
+
+    it('should describe identity requests', function () {
+        const request = SigningRequest.identity(
+            {callback: 'https://example.com', account: 'alice', permission: 'active'},
+            options
+        )
+        const [summary] = request.describe(new Map())
+        assert.equal(summary.text, 'Sign in as alice@active')
+    })
+
+    it('should format messages', function () {
+        assert.equal(formatMessage('{a} and {b}', {a: 'foo'}), 'foo and {b}')
+    })
+})
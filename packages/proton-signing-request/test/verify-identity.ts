@@ -0,0 +1,142 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {
+    ChainName,
+    IdentityProof,
+    IdentityProofError,
+    identityProofMiddleware,
+    IdentityVerificationClient,
+    verifyIdentityProof,
+} from '../src'
+import {PermissionLevelType, PrivateKey} from '@greymass/eosio'
+
+const now = new Date('2021-01-01T00:00:00Z')
+const chainId = ChainName.PROTON
+
+const fooKey = PrivateKey.from('5KQvfsPJ9YvGuVbLRLXVWPNubed6FWvV8yax6cNSJEzB4co3zFu')
+const barKey = PrivateKey.from('5JW71y3njNNVf9fiGaufq8Up5XiGk68jZ5tYhKpy69yyU9cr7n9')
+
+const accounts: Record<string, any> = {
+    foo: {
+        permissions: [
+            {
+                perm_name: 'active',
+                required_auth: {threshold: 1, keys: [{key: fooKey.toPublic(), weight: 1}]},
+            },
+        ],
+    },
+    // needs foo@active and its own key
+    multi: {
+        permissions: [
+            {
+                perm_name: 'active',
+                required_auth: {
+                    threshold: 2,
+                    keys: [{key: barKey.toPublic(), weight: 1}],
+                    accounts: [{permission: {actor: 'foo', permission: 'active'}, weight: 1}],
+                },
+            },
+            {
+                perm_name: 'linked',
+                required_auth: {
+                    threshold: 1,
+                    accounts: [{permission: {actor: 'foo', permission: 'active'}, weight: 1}],
+                },
+            },
+        ],
+    },
+}
+
+const client: IdentityVerificationClient = {
+    async get_account(name: string) {
+        if (!accounts[name]) {
+            throw new Error(`Unknown account ${name}`)
+        }
+        return accounts[name]
+    },
+}
+
+function createProof(key: PrivateKey, signer: PermissionLevelType, expiresIn = 60) {
+    const proof = IdentityProof.from({
+        chainId,
+        expiration: new Date(now.getTime() + expiresIn * 1000),
+        signer,
+        signature:
+            'SIG_K1_K4nkCupUx3hDXSHq4rhGPpDMPPPjJyvmF3M6j7ppYUzkR3L93endwnxf3YhJSG4SSvxxU1ytD8hj39kukTeYxjwy5H3XNJ',
+    })
+    proof.signature = key.signDigest(proof.transaction.signingDigest(proof.chainId))
+    return String(proof)
+}
+
+const options = {client, chainId, currentTime: now}
+
+describe('verify identity', function () {
+    it('should verify proofs', async function () {
+        const identity = await verifyIdentityProof(
+            createProof(fooKey, {actor: 'foo', permission: 'active'}),
+            options
+        )
+        assert.equal(String(identity.signer), 'foo@active')
+        assert.equal(String(identity.actor), 'foo')
+        assert.equal(String(identity.publicKey), String(fooKey.toPublic()))
+        const linked = await verifyIdentityProof(
+            createProof(fooKey, {actor: 'multi', permission: 'linked'}),
+            options
+        )
+        assert.equal(String(linked.signer), 'multi@linked')
+    })
+
+    it('should reject invalid proofs', async function () {
+        const reject = (proof: string, message: RegExp, opts: any = options) =>
+            assert.rejects(verifyIdentityProof(proof, opts), (error: any) => {
+                assert.ok(error instanceof IdentityProofError)
+                assert.match(error.message, message)
+                return true
+            })
+        await reject('Bearer foo', /Invalid IdentityProof string/)
+        await reject(createProof(barKey, {actor: 'foo', permission: 'active'}), /Not signed by/)
+        await reject(
+            createProof(fooKey, {actor: 'multi', permission: 'active'}),
+            /Not signed by multi@active/
+        )
+        await reject(createProof(fooKey, {actor: 'foo', permission: 'owner'}), /Not signed by/)
+        await reject(createProof(fooKey, {actor: 'foo', permission: 'active'}, -1), /Expired at/)
+        await reject(
+            createProof(fooKey, {actor: 'foo', permission: 'active'}, 3600),
+            /exceeds max age/,
+            {...options, maxAge: 60}
+        )
+        await reject(
+            createProof(fooKey, {actor: 'foo', permission: 'active'}),
+            /Signed for wrong chain/,
+            {...options, chainId: ChainName.EOS}
+        )
+        await reject(createProof(fooKey, {actor: 'multi', permission: 'linked'}), /Not signed by/, {
+            ...options,
+            maxDepth: 0,
+        })
+    })
+
+    it('should gate requests in middleware', async function () {
+        const middleware = identityProofMiddleware(options)
+        const run = (headers: Record<string, string>) =>
+            new Promise<{request: any; error?: any}>((resolve) => {
+                const request: any = {headers}
+                middleware(request, {}, (error) => resolve({request, error}))
+            })
+        const ok = await run({
+            authorization: createProof(fooKey, {actor: 'foo', permission: 'active'}),
+        })
+        assert.equal(ok.error, undefined)
+        assert.equal(String(ok.request.identity.signer), 'foo@active')
+        const missing = await run({})
+        assert.equal(missing.error.status, 401)
+        assert.match(missing.error.message, /Missing authorization header/)
+        const invalid = await run({
+            authorization: createProof(barKey, {actor: 'foo', permission: 'active'}),
+        })
+        assert.equal(invalid.error.statusCode, 401)
+        assert.equal(invalid.request.identity, undefined)
+    })
+})
@@ -36,6 +36,11 @@ const exportFix = `
 })()
 `
 
+// keep require() returning ConnectWallet, with the named exports as properties
+const cjsExportFix = `
+module.exports = Object.assign(exports.default, exports);
+`
+
 const replaceVersion = replace({
   preventAssignment: true,
   __ver: pkg.version,
@@ -56,10 +61,11 @@ export default [
     input: 'src/index.ts',
     output: {
       banner,
+      footer: cjsExportFix,
       file: pkg.main,
       format: 'cjs',
       sourcemap: !production,
-      exports: 'default',
+      exports: 'named',
     },
     plugins: [
       svelte({
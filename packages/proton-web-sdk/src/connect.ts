@@ -1,12 +1,13 @@
 import ProtonLinkBrowserTransport from '@proton/browser-transport'
-import ProtonLink from '@proton/link'
-import type {LinkOptions, PermissionLevel} from '@proton/link'
+import ProtonLink, {FailoverJsonRpc, LinkError} from '@proton/link'
+import type {ChainIdType, LinkChainConfig, LinkOptions, PermissionLevel} from '@proton/link'
 import WalletTypeSelector from './walletTypeSelector'
 import {ProtonWebLink} from './links/protonWeb'
-import {Storage} from './storage'
-import {WALLET_TYPES} from './constants'
-import type {ConnectWalletArgs, ConnectWalletRet, LoginOptions} from './types'
-import {JsonRpc} from '@proton/js'
+import {CleosLink} from './links/cleos'
+import {createStorage} from './storage'
+import {listenSessionChanges, lockSigning} from './sessionSync'
+import {DEVELOPER_WALLET_TYPES, PROTON_TESTNET_CHAIN_ID, WALLET_TYPES} from './constants'
+import type {ConnectWalletArgs, ConnectWalletRet, LoginOptions, SessionChangedEvent} from './types'
 
 let walletSelector: WalletTypeSelector | undefined
 
@@ -15,22 +16,29 @@ export const ConnectWallet = async ({
   transportOptions = {},
   selectorOptions = {},
 }: ConnectWalletArgs): Promise<ConnectWalletRet> => {
-  // Add RPC
-  const rpc = new JsonRpc(linkOptions.endpoints)
-  linkOptions.client = rpc
-
-  // Add Chain ID
-  if (!linkOptions.chainId) {
-    const info = await rpc.get_info()
-    linkOptions.chainId = info.chain_id
-  }
+  // Add RPC for every chain, fails over between the endpoints
+  const chainOptions = linkOptions.chains || [
+    {chainId: linkOptions.chainId!, endpoints: linkOptions.endpoints || []},
+  ]
+  const chains: LinkChainConfig[] = await Promise.all(
+    chainOptions.map(async ({endpoints, ...chain}) => {
+      const rpc = new FailoverJsonRpc(endpoints)
+      // Add Chain ID
+      const chainId = chain.chainId || (await rpc.get_info()).chain_id
+      return {...chain, chainId, nodeUrl: rpc}
+    })
+  )
+
+  // Active chain, used for login and by single chain wallets
+  const activeChain =
+    chains.find(({chainId}) => String(chainId) === String(linkOptions.chainId)) || chains[0]
+  linkOptions.client = activeChain.nodeUrl
+  linkOptions.chainId = activeChain.chainId
 
   // Add storage
-  if (!linkOptions.storage) {
-    linkOptions.storage = new Storage(linkOptions.storagePrefix || 'proton-storage')
-  }
+  linkOptions.storage = createStorage(linkOptions)
 
-  return login({selectorOptions, linkOptions, transportOptions}).finally(() => {
+  return login({selectorOptions, linkOptions, transportOptions, chains}).finally(() => {
     if (walletSelector) {
       walletSelector.destroy()
       walletSelector = undefined
@@ -80,7 +88,7 @@ const login = async (
                 loginOptions.selectorOptions.enabledWalletTypes &&
                 loginOptions.selectorOptions.enabledWalletTypes.includes(wallet.key)
             )
-          : WALLET_TYPES
+          : WALLET_TYPES.filter((wallet) => !DEVELOPER_WALLET_TYPES.includes(wallet.key))
 
         try {
           walletType = await walletSelector.displayWalletSelector(enabledWalletTypes)
@@ -95,26 +103,26 @@ const login = async (
 
     if (!walletType) {
       return {
-        error: new Error('Wallet Type Unavailable: No wallet provided'),
+        error: new LinkError('Wallet Type Unavailable: No wallet provided', 'E_WALLET_UNAVAILABLE'),
       }
     }
 
-    // Determine chain
-    let chain = 'proton'
-    if (
-      loginOptions.linkOptions.chainId ===
-      '71ee83bcf52142d61019d95f9cc5427ba6a0d7ff8accd9e2088ae2abeaf3d3dd'
-    ) {
-      chain = 'proton-test'
+    if (walletType === 'cleos' && !loginOptions.linkOptions.cleos) {
+      return {
+        error: new LinkError(
+          'Wallet Type Unavailable: No developer wallet keys provided',
+          'E_WALLET_UNAVAILABLE'
+        ),
+      }
     }
 
-    // Set scheme
-    let scheme = 'proton'
-    if (walletType === 'anchor') {
-      scheme = 'esr'
-    } else if (chain === 'proton-test') {
-      scheme = 'proton-dev'
-    }
+    // Set scheme per chain
+    const chains = loginOptions.chains.map((chain) => ({
+      ...chain,
+      scheme: walletType === 'anchor' ? 'esr' : chainScheme(chain.chainId, loginOptions.chains),
+    }))
+    const activeChainId = loginOptions.linkOptions.chainId!
+    const scheme = walletType === 'anchor' ? 'esr' : chainScheme(activeChainId, loginOptions.chains)
 
     const options = {
       ...loginOptions.linkOptions,
@@ -124,12 +132,18 @@ const login = async (
         walletType,
       }) as any,
       walletType,
-      chains: [],
+      chains,
     }
 
     // Create link
     if (walletType === 'webauth') {
       link = new ProtonWebLink(options as LinkOptions)
+    } else if (walletType === 'cleos') {
+      link = new CleosLink(options as LinkOptions)
+    } else if (chains.length > 1) {
+      // Configure all chains, client and chainId would limit the link to the active chain
+      link = new ProtonLink({...options, client: undefined, chainId: undefined} as LinkOptions)
+      link.setActiveChain(activeChainId)
     } else {
       link = new ProtonLink(options as LinkOptions)
     }
@@ -206,6 +220,10 @@ const login = async (
       session.publicKey = session.publicKey ? session.publicKey.toString() : (undefined as any)
     }
 
+    if (session! && loginOptions.linkOptions.syncTabs !== false) {
+      lockSigning(session, `${loginOptions.linkOptions.storagePrefix || 'proton-storage'}-signing`)
+    }
+
     return {
       session,
       link,
@@ -222,3 +240,28 @@ const login = async (
     resolve(res)
   })
 }
+
+/**
+ * Listen for logins and logouts in other tabs of the app, returns a function that stops listening.
+ * Pass the arguments used for ConnectWallet, `restore` then connects to the session logged in
+ * by the other tab without prompting.
+ */
+export const onSessionChanged = (
+  args: ConnectWalletArgs,
+  listener: (_event: SessionChangedEvent) => void
+) => {
+  const storagePrefix = args.linkOptions.storagePrefix || 'proton-storage'
+  const storage = createStorage(args.linkOptions)
+  const restore = () =>
+    ConnectWallet({...args, linkOptions: {...args.linkOptions, storage, restoreSession: true}})
+  return listenSessionChanges(storage, storagePrefix, (change) => listener({...change, restore}))
+}
+
+/** Request scheme for a chain, the configured chain scheme wins over the testnet default. */
+const chainScheme = (chainId: ChainIdType, chains: LinkChainConfig[] = []) => {
+  const chain = chains.find((c) => String(c.chainId) === String(chainId))
+  if (chain && chain.scheme) {
+    return chain.scheme
+  }
+  return String(chainId) === PROTON_TESTNET_CHAIN_ID ? 'proton-dev' : 'proton'
+}
@@ -2,4 +2,12 @@ export const WALLET_TYPES = [
   {key: 'proton', value: 'Mobile'},
   {key: 'webauth', value: 'Browser'},
   {key: 'anchor', value: 'Desktop'},
+  {key: 'cleos', value: 'Developer'},
 ]
+
+/** Chain id of the Proton testnet, requests for it use the `proton-dev` scheme. */
+export const PROTON_TESTNET_CHAIN_ID =
+  '71ee83bcf52142d61019d95f9cc5427ba6a0d7ff8accd9e2088ae2abeaf3d3dd'
+
+/** Wallet types that are only offered when explicitly enabled. */
+export const DEVELOPER_WALLET_TYPES = ['cleos']
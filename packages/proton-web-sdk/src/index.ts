@@ -1,6 +1,15 @@
 import {ConnectWallet} from './connect'
 
+export {onSessionChanged} from './connect'
+
 export type {ProtonWebLink} from './links/protonWeb'
+export type {
+  CleosLink,
+  CleosKeystore,
+  CleosLinkOptions,
+  CleosSession,
+  CleosTransactResult,
+} from './links/cleos'
 export type {Link, LinkSession, TransactResult} from '@proton/link'
 
 //Allowing Type Definitions to be used by other modules
@@ -1,132 +1,155 @@
-import type {LinkOptions, LinkStorage, TransactArgs, TransactOptions} from '@proton/link'
+import {
+  ABI,
+  Action,
+  Bytes,
+  Checksum256,
+  isInstanceOf,
+  Name,
+  PermissionLevel,
+  PrivateKey,
+  Serializer,
+  Struct,
+  TimePointSec,
+  Transaction,
+  TransactionHeader,
+} from '@greymass/eosio'
+import type {
+  ABIDef,
+  AnyAction,
+  AnyTransaction,
+  NameType,
+  PermissionLevelType,
+  PublicKey,
+  Signature,
+} from '@greymass/eosio'
+import type {ApiInterfaces, JsonRpc} from '@proton/js'
+import {ChainError, ChainId} from '@proton/link'
+import type {
+  ChainIdType,
+  LinkOptions,
+  LinkStorage,
+  TransactArgs,
+  TransactOptions,
+} from '@proton/link'
+
+/**
+ * Private keys for the developer wallet. Either a list of private keys, the output of
+ * `cleos wallet private_keys` (a list of public and private key pairs) or an object
+ * mapping public keys to private keys. JSON strings of these are also accepted.
+ */
+export type CleosKeystore = string | string[] | [string, string][] | Record<string, string>
+
+export interface CleosLinkOptions {
+  /** Keys to sign with. */
+  keys: CleosKeystore
+  /** Account to log in as, defaults to the `requestAccount` passed to login. */
+  auth?: PermissionLevelType
+  /** Seconds until signed transactions expire, defaults to 120. */
+  expireSeconds?: number
+}
 
-const OPEN_SETTINGS = 'menubar=1,resizable=1,width=400,height=600'
+/** Result of a developer wallet transaction, the subset of the link `TransactResult` it can provide. */
+export interface CleosTransactResult {
+  transaction: Transaction
+  resolvedTransaction: Transaction
+  signatures: Signature[]
+  signer: PermissionLevel
+  chain: {chainId: ChainId}
+  /** Push transaction response, if broadcast. */
+  processed?: {[key: string]: any}
+}
 
-interface Authorization {
-  actor: string
-  permission: string
+/** Developer wallet session, signs with the wallet keys instead of prompting. */
+export interface CleosSession {
+  auth: PermissionLevel
+  publicKey: PublicKey
+  transact: (_args: TransactArgs, _options?: TransactOptions) => Promise<CleosTransactResult>
+  makeSignatureProvider: () => ApiInterfaces.SignatureProvider
+  link: {walletType: string}
 }
-class Deferred {
-  promise: Promise<any>
-  reject: any
-  resolve: any
-
-  constructor() {
-    this.promise = new Promise((resolve, reject) => {
-      this.reject = reject
-      this.resolve = resolve
-    })
-  }
+
+/** Placeholders used in signing requests, resolved to the session auth. */
+const PLACEHOLDER_NAME = '............1'
+const PLACEHOLDER_PERMISSION = '............2'
+
+/** Parse a keystore into private keys. */
+export function parseKeystore(keystore: CleosKeystore): PrivateKey[] {
+  const parsed = typeof keystore === 'string' ? JSON.parse(keystore) : keystore
+  const values: string[] = Array.isArray(parsed)
+    ? parsed.map((entry: string | [string, string]) => (Array.isArray(entry) ? entry[1] : entry))
+    : Object.values(parsed)
+  return values.map((value) => PrivateKey.from(value))
 }
 
-export class ProtonWebLink {
-  childWindow: Window | null = null
-  deferredTransact:
-    | {
-        deferral: Deferred
-        transaction: any
-        params: any
-        waitingForOpen: boolean
-      }
-    | undefined
-  deferredLogin: Deferred | undefined
-  scheme: string
+/**
+ * Developer wallet signing with private keys held in memory, for local devnets and
+ * automated tests. Never use this with keys holding real funds.
+ */
+export class CleosLink {
+  chainId: ChainId
+  rpc: JsonRpc
   storage: LinkStorage | null | undefined
-  testUrl: string | undefined
+  keys: PrivateKey[]
+  auth: PermissionLevel | undefined
+  expireSeconds: number
 
-  constructor(options: LinkOptions & {testUrl?: string}) {
-    this.scheme = options.scheme
-    this.storage = options.storage
-    this.testUrl = options.testUrl
+  private abis = new Map<string, Promise<ABIDef>>()
 
-    setInterval(() => this.closeChild(), 500)
-    window.addEventListener('message', (event) => this.onEvent(event), false)
-  }
-
-  childUrl(path: string) {
-    const base = this.testUrl
-      ? this.testUrl
-      : this.scheme === 'proton'
-        ? 'https://webauth.com'
-        : 'https://testnet.webauth.com'
-    return `${base}${path}`
+  constructor(options: LinkOptions & {cleos?: CleosLinkOptions}) {
+    if (!options.cleos || !options.client || !options.chainId) {
+      throw new Error('Developer wallet requires keys, an RPC client and a chain id')
+    }
+    this.chainId = ChainId.from(options.chainId)
+    this.rpc = options.client as unknown as JsonRpc
+    this.storage = options.storage
+    this.keys = parseKeystore(options.cleos.keys)
+    if (this.keys.length === 0) {
+      throw new Error('Developer wallet keystore is empty')
+    }
+    this.auth = options.cleos.auth ? PermissionLevel.from(options.cleos.auth) : undefined
+    this.expireSeconds = options.cleos.expireSeconds || 120
   }
 
-  closeChild(force = false) {
-    if (this.childWindow) {
-      if (force) {
-        this.childWindow.close()
-      }
-
-      if (force || this.childWindow.closed) {
-        this.childWindow = null
-      }
-    }
+  /** Public keys of the keys held by the wallet. */
+  get publicKeys() {
+    return this.keys.map((key) => key.toPublic())
   }
 
-  createSession(auth: Authorization) {
+  createSession(auth: PermissionLevelType): CleosSession {
+    const level = PermissionLevel.from(auth)
     return {
-      auth,
-      transact: (args: TransactArgs, options?: TransactOptions): Promise<any> => {
-        if (this.deferredLogin) {
-          this.closeChild(true)
-          this.deferredLogin.reject('Trying to login')
-          this.deferredLogin = undefined
-        }
-
-        this.deferredTransact = {
-          deferral: new Deferred(),
-          transaction: args.transaction || {actions: args.actions},
-          params: options,
-          waitingForOpen: true,
-        }
-
-        this.childWindow = window.open(this.childUrl('/auth'), '_blank', OPEN_SETTINGS)
-
-        try {
-          return this.deferredTransact.deferral.promise
-        } catch (e) {
-          console.error(e)
-          throw e
-        }
-      },
+      auth: level,
+      publicKey: this.keys[0].toPublic(),
+      transact: (args: TransactArgs, options?: TransactOptions) =>
+        this.transact(level, args, options),
+      makeSignatureProvider: () => this.makeSignatureProvider(),
       link: {
-        walletType: 'webauth',
+        walletType: 'cleos',
       },
     }
   }
 
-  async login() {
-    if (this.deferredTransact) {
-      this.closeChild(true)
-      this.deferredTransact.deferral.reject('Trying to login')
-      this.deferredTransact = undefined
+  async login(requestAccount?: string) {
+    const auth =
+      this.auth || (requestAccount ? {actor: requestAccount, permission: 'active'} : null)
+    if (!auth) {
+      throw new Error('Developer wallet requires an account to log in as')
     }
 
-    this.childWindow = window.open(this.childUrl('/login'), '_blank', OPEN_SETTINGS)
-    this.deferredLogin = new Deferred()
-
-    try {
-      this.storage!.write('wallet-type', 'webauth')
+    if (this.storage) {
+      await this.storage.write('wallet-type', 'cleos')
+    }
 
-      const auth: {
-        actor: string
-        permission: string
-      } = await this.deferredLogin.promise
-      return {
-        session: this.createSession(auth),
-      }
-    } catch (e) {
-      console.error(e)
-      throw e
+    return {
+      session: this.createSession(auth),
     }
   }
 
-  async restoreSession(/* requestAccount */ _: string, auth: any) {
+  async restoreSession(/* requestAccount */ _: string, auth: PermissionLevelType) {
     return this.createSession(auth)
   }
 
-  async removeSession(appIdentifier: string, auth: any, chainId: any) {
+  async removeSession(appIdentifier: string, auth: PermissionLevelType, chainId: ChainIdType) {
     if (!this.storage) {
       throw new Error('Unable to remove session: No storage adapter configured')
     }
@@ -146,81 +169,168 @@ export class ProtonWebLink {
     }
   }
 
-  async onEvent(e: MessageEvent) {
-    if (
-      e.origin.indexOf('https://webauth.com') !== -1 &&
-      e.origin.indexOf('https://testnet.webauth.com') !== -1
-    ) {
-      return
-    }
-
-    let eventData
-    try {
-      eventData = JSON.parse(e.data)
-    } catch (e) {
-      return
-    }
-
-    try {
-      const {type, data, error} = eventData
-      if (!type) {
-        return
-      }
-
-      console.log(type, data, error)
-
-      // Ready to receive transaction
-      if (type === 'isReady') {
-        if (this.deferredTransact && this.deferredTransact.waitingForOpen) {
-          this.deferredTransact.waitingForOpen = false
-
-          this.childWindow!.postMessage(
-            JSON.stringify({
-              type: 'transaction',
-              data: {
-                transaction: this.deferredTransact.transaction,
-                params: this.deferredTransact.params,
-              },
-            }),
-            '*'
-          )
-        }
-      }
-      // Close child
-      else if (type === 'close') {
-        this.closeChild(true)
-
-        if (this.deferredTransact) {
-          this.deferredTransact.deferral.reject('Closed')
-        } else if (this.deferredLogin) {
-          this.deferredLogin.reject('Closed')
-        }
-      }
-      // TX Success
-      else if (type === 'transactionSuccess') {
-        this.closeChild(true)
-
-        if (this.deferredTransact) {
-          if (error) {
-            this.deferredTransact.deferral.reject(error && error.json ? error.json : error)
-          } else {
-            this.deferredTransact.deferral.resolve(data)
-          }
-
-          this.deferredTransact = undefined
-        }
-      }
-      // Login success
-      else if (type === 'loginSuccess') {
-        this.closeChild(true)
-
-        if (this.deferredLogin) {
-          this.deferredLogin.resolve(data)
-          this.deferredLogin = undefined
+  /** Signature provider with the eosjs interface, signing with the wallet keys. */
+  makeSignatureProvider(): ApiInterfaces.SignatureProvider {
+    return {
+      getAvailableKeys: async () => this.publicKeys.map(String),
+      sign: async (args) => {
+        const digest = Checksum256.hash(
+          Bytes.from(Checksum256.from(args.chainId).array)
+            .appending(args.serializedTransaction)
+            .appending(
+              args.serializedContextFreeData
+                ? Checksum256.hash(args.serializedContextFreeData).array
+                : new Uint8Array(32)
+            )
+        )
+        const keys = this.keys.filter((key) =>
+          args.requiredKeys.some((required) => key.toPublic().equals(required))
+        )
+        return {
+          signatures: keys.map((key) => String(key.signDigest(digest))),
+          serializedTransaction: args.serializedTransaction,
+          serializedContextFreeData: args.serializedContextFreeData,
         }
-      }
-    } catch (e) {
-      console.error(e)
+      },
+    }
+  }
+
+  /**
+   * Sign a transaction and broadcast it unless `broadcast` is false.
+   * Placeholders in the authorization and action data are resolved to auth, like link does.
+   */
+  async transact(
+    auth: PermissionLevel,
+    args: TransactArgs,
+    options?: TransactOptions
+  ): Promise<CleosTransactResult> {
+    const actions: AnyAction[] = args.actions
+      ? args.actions
+      : args.action
+        ? [args.action]
+        : (args.transaction && args.transaction.actions) || []
+    const resolved = await Promise.all(
+      actions.map(async (action) => {
+        const abi = await this.getAbi(action.account)
+        const data = Action.from(action, abi).decodeData(abi)
+        return Action.from(
+          {
+            ...action,
+            authorization: action.authorization.map((level) => {
+              const {actor, permission} = PermissionLevel.from(level)
+              return {
+                actor: actor.equals(PLACEHOLDER_NAME) ? auth.actor : actor,
+                permission:
+                  permission.equals(PLACEHOLDER_NAME) || permission.equals(PLACEHOLDER_PERMISSION)
+                    ? auth.permission
+                    : permission,
+              }
+            }),
+            data: resolvePlaceholders(data, auth) as Record<string, unknown>,
+          },
+          abi
+        )
+      })
+    )
+
+    const info = await this.rpc.get_info()
+    const header = args.transaction ? nonZeroHeaderFields(args.transaction) : {}
+    const blockId = Checksum256.from(info.last_irreversible_block_id).array
+    const transaction = Transaction.from({
+      expiration: TimePointSec.fromMilliseconds(
+        TimePointSec.from(info.head_block_time).toMilliseconds() + this.expireSeconds * 1000
+      ),
+      ref_block_num: info.last_irreversible_block_num & 0xffff,
+      ref_block_prefix: new DataView(blockId.buffer, blockId.byteOffset).getUint32(8, true),
+      ...header,
+      actions: resolved,
+    })
+
+    const requiredKeys = await this.rpc.getRequiredKeys({
+      transaction: Serializer.objectify(transaction),
+      availableKeys: this.publicKeys.map(String),
+    })
+    const digest = transaction.signingDigest(this.chainId)
+    const signatures: Signature[] = this.keys
+      .filter((key) => requiredKeys.some((required) => key.toPublic().equals(required)))
+      .map((key) => key.signDigest(digest))
+
+    const result: CleosTransactResult = {
+      transaction,
+      resolvedTransaction: transaction,
+      signatures,
+      signer: auth,
+      chain: {chainId: this.chainId},
+    }
+    if (options?.broadcast !== false) {
+      result.processed = (
+        await this.rpc
+          .push_transaction({
+            signatures: signatures.map(String),
+            serializedTransaction: Serializer.encode({object: transaction}).array,
+          })
+          .catch((error) => {
+            throw ChainError.from(error)
+          })
+      ).processed
+    }
+    return result
+  }
+
+  private getAbi(account: NameType) {
+    const key = String(account)
+    let abi = this.abis.get(key)
+    if (!abi) {
+      abi = this.rpc.get_abi(key).then((result) => ABI.from(result.abi))
+      abi.catch(() => this.abis.delete(key))
+      this.abis.set(key, abi)
+    }
+    return abi
+  }
+}
+
+/**
+ * Header fields of a transaction that are set, zeroed fields are filled in like link does.
+ * Transactions from eosjs style apps often carry a zeroed header, e.g. a 1970 expiration.
+ */
+function nonZeroHeaderFields(transaction: AnyTransaction) {
+  const header = Serializer.objectify(TransactionHeader.from(transaction))
+  const fields: Record<string, unknown> = {}
+  for (const {name} of TransactionHeader.structFields) {
+    const value = header[name]
+    if (value !== 0 && value !== '1970-01-01T00:00:00') {
+      fields[name] = value
+    }
+  }
+  return fields
+}
+
+/**
+ * Replace placeholder names in decoded action data, see `SigningRequest.resolve`.
+ * Returns a copy, only structs, plain objects and arrays are descended into.
+ */
+function resolvePlaceholders(value: unknown, auth: PermissionLevel): unknown {
+  if (isInstanceOf(value, Name)) {
+    if (value.equals(PLACEHOLDER_NAME)) {
+      return auth.actor
+    } else if (value.equals(PLACEHOLDER_PERMISSION)) {
+      return auth.permission
+    }
+    return value
+  } else if (Array.isArray(value)) {
+    return value.map((item) => resolvePlaceholders(item, auth))
+  } else if (isInstanceOf(value, Struct)) {
+    const rv: Record<string, unknown> = {}
+    for (const {name} of (value.constructor as typeof Struct).structFields) {
+      rv[name] = resolvePlaceholders(value[name], auth)
+    }
+    return rv
+  } else if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    const rv: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      rv[key] = resolvePlaceholders(item, auth)
     }
+    return rv
   }
+  return value
 }
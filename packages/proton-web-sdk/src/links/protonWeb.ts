@@ -5,6 +5,7 @@ import type {
   TransactArgs,
   TransactOptions,
 } from '@proton/link'
+import {CancelError, ChainError, LinkError, LinkRequestQueue} from '@proton/link'
 import {JsonRpc} from '@proton/js'
 
 const OPEN_SETTINGS = 'menubar=1,resizable=1,width=400,height=600'
@@ -39,6 +40,8 @@ export class ProtonWebLink {
       }
     | undefined
   deferredLogin: Deferred | undefined
+  /** Transactions wait here while the wallet window shows another one, then reuse the window */
+  queue = new LinkRequestQueue()
   scheme: string
   storage: LinkStorage | null | undefined
   client: JsonRpc | undefined
@@ -56,7 +59,10 @@ export class ProtonWebLink {
 
   constructor(options: LinkOptions & {testUrl?: string}) {
     this.scheme = options.scheme
-    this.client = typeof options.client === 'string' ? new JsonRpc(options.client) : options.client
+    this.client =
+      typeof options.client === 'string' || Array.isArray(options.client)
+        ? new JsonRpc(options.client)
+        : options.client
     this.storage = options.storage
     this.testUrl = options.testUrl
     this.transport = options.transport
@@ -88,35 +94,16 @@ export class ProtonWebLink {
   }
 
   createSession(auth: Authorization) {
+    const {queue} = this
     return {
       auth,
       chainId: this.chainId,
-      transact: async (args: TransactArgs, options?: TransactOptions): Promise<any> => {
-        if (this.deferredLogin) {
-          this.closeChild(true)
-          this.deferredLogin.reject('Trying to login')
-          this.deferredLogin = undefined
-        }
-
-        this.deferredTransact = {
-          deferral: new Deferred(),
-          transaction: args.transaction || {actions: args.actions},
-          params: options,
-          waitingForOpen: true,
-        }
-
-        this.childWindow = window.open(this.childUrl('/auth'), '_blank', OPEN_SETTINGS)
-
-        try {
-          const res = await this.deferredTransact.deferral.promise
-          return res
-        } catch (error) {
-          if (this.transport.onFailure) {
-            this.transport.onFailure(undefined as any, error as any)
-          }
-          throw error
-        }
+      transact: (args: TransactArgs, options?: TransactOptions): Promise<any> =>
+        queue.run(this, () => this.transact(args, options)),
+      get queueLength() {
+        return queue.size()
       },
+      cancelQueued: (reason?: string | Error) => queue.cancel(this, reason),
       link: {
         walletType: 'webauth',
         client: this.client,
@@ -124,15 +111,59 @@ export class ProtonWebLink {
     }
   }
 
+  async transact(args: TransactArgs, options?: TransactOptions): Promise<any> {
+    if (this.deferredLogin) {
+      this.closeChild(true)
+      this.deferredLogin.reject(new CancelError('Trying to login'))
+      this.deferredLogin = undefined
+    }
+
+    this.deferredTransact = {
+      deferral: new Deferred(),
+      transaction: args.transaction || {actions: args.actions},
+      params: options,
+      waitingForOpen: true,
+    }
+
+    if (this.childWindow && !this.childWindow.closed) {
+      // queued transactions run outside the user gesture, opening a new window would be blocked
+      this.childWindow.location.replace(this.childUrl('/auth'))
+    } else {
+      this.childWindow = window.open(this.childUrl('/auth'), '_blank', OPEN_SETTINGS)
+    }
+    if (!this.childWindow) {
+      this.deferredTransact.deferral.reject(popupBlockedError())
+    }
+
+    const deferredTransact = this.deferredTransact
+    try {
+      const res = await deferredTransact.deferral.promise
+      return res
+    } catch (error) {
+      if (this.transport.onFailure) {
+        this.transport.onFailure(undefined as any, error as any)
+      }
+      throw error
+    } finally {
+      if (this.deferredTransact === deferredTransact) {
+        this.deferredTransact = undefined
+      }
+    }
+  }
+
   async login() {
+    this.queue.cancel(this, 'Trying to login')
     if (this.deferredTransact) {
       this.closeChild(true)
-      this.deferredTransact.deferral.reject('Trying to login')
+      this.deferredTransact.deferral.reject(new CancelError('Trying to login'))
       this.deferredTransact = undefined
     }
 
     this.childWindow = window.open(this.childUrl('/login'), '_blank', OPEN_SETTINGS)
     this.deferredLogin = new Deferred()
+    if (!this.childWindow) {
+      this.deferredLogin.reject(popupBlockedError())
+    }
 
     try {
       this.storage!.write('wallet-type', 'webauth')
@@ -217,18 +248,21 @@ export class ProtonWebLink {
         this.closeChild(true)
 
         if (this.deferredTransact) {
-          this.deferredTransact.deferral.reject('Closed')
+          this.deferredTransact.deferral.reject(walletClosedError())
         } else if (this.deferredLogin) {
-          this.deferredLogin.reject('Closed')
+          this.deferredLogin.reject(walletClosedError())
         }
       }
       // TX Success
       else if (type === 'transactionSuccess') {
-        this.closeChild(true)
+        // keep the window open for the next queued transaction
+        if (this.queue.size(this) === 0) {
+          this.closeChild(true)
+        }
 
         if (this.deferredTransact) {
           if (error) {
-            this.deferredTransact.deferral.reject(error && error.json ? error.json : error)
+            this.deferredTransact.deferral.reject(ChainError.from(error))
           } else {
             this.deferredTransact.deferral.resolve(data)
           }
@@ -250,3 +284,8 @@ export class ProtonWebLink {
     }
   }
 }
+
+const popupBlockedError = () =>
+  new LinkError('Unable to open the wallet window, allow popups for this site', 'E_POPUP_BLOCKED')
+
+const walletClosedError = () => new LinkError('Wallet window closed', 'E_WALLET_CLOSED')
@@ -0,0 +1,131 @@
+import type {LinkStorage} from '@proton/link'
+import type {SessionChange} from './types'
+
+/** Storage key that holds the logged in account, changes to it are announced to other tabs */
+export const SESSION_KEY = 'user-auth'
+
+/** Name of the channel used to announce session changes for a storage prefix */
+export const channelName = (storagePrefix: string) => `${storagePrefix}-sync`
+
+/** Identifies this tab, tabs ignore their own announcements */
+const TAB_ID = Math.random().toString(36).slice(2)
+
+/** Open a broadcast channel, undefined if the browser does not support them */
+export const openChannel = (name: string) =>
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : undefined
+
+/** Read the logged in account and wallet type from storage */
+export const readSession = async (storage: LinkStorage): Promise<SessionChange> => {
+  const [auth, walletType] = await Promise.all([
+    storage.read(SESSION_KEY),
+    storage.read('wallet-type'),
+  ])
+  let parsedAuth: SessionChange['auth'] = null
+  try {
+    parsedAuth = auth ? JSON.parse(auth) : null
+  } catch {
+    // not written by this sdk
+  }
+  return {auth: parsedAuth, walletType}
+}
+
+/**
+ * Storage that announces logins and logouts to the other tabs of the app.
+ * Without broadcast channels the other tabs rely on `storage` events instead.
+ */
+export class SyncedStorage implements LinkStorage {
+  readonly storage: LinkStorage
+  readonly channelName: string
+
+  constructor(storage: LinkStorage, name: string) {
+    this.storage = storage
+    this.channelName = name
+  }
+
+  async write(key: string, data: string): Promise<void> {
+    await this.storage.write(key, data)
+    if (key === SESSION_KEY) {
+      await this.announce()
+    }
+  }
+
+  async read(key: string): Promise<string | null> {
+    return this.storage.read(key)
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.storage.remove(key)
+    if (key === SESSION_KEY) {
+      await this.announce()
+    }
+  }
+
+  private async announce() {
+    const channel = openChannel(this.channelName)
+    if (channel) {
+      channel.postMessage({...(await readSession(this.storage)), tab: TAB_ID})
+      channel.close()
+    }
+  }
+}
+
+/**
+ * Listen for session changes made by other tabs, returns a function that stops listening.
+ * Uses broadcast channels or `storage` events on `${storagePrefix}-user-auth` as fallback.
+ */
+export const listenSessionChanges = (
+  storage: LinkStorage,
+  storagePrefix: string,
+  listener: (_change: SessionChange) => void
+) => {
+  const channel = openChannel(channelName(storagePrefix))
+  if (channel) {
+    channel.onmessage = ({data}: MessageEvent) => {
+      if (data && data.tab !== TAB_ID) {
+        listener({auth: data.auth, walletType: data.walletType})
+      }
+    }
+    return () => channel.close()
+  }
+  const onStorage = async (event: StorageEvent) => {
+    if (event.key === `${storagePrefix}-${SESSION_KEY}`) {
+      listener(await readSession(storage))
+    }
+  }
+  window.addEventListener('storage', onStorage)
+  return () => window.removeEventListener('storage', onStorage)
+}
+
+type SigningMethod = (..._args: any[]) => Promise<any>
+
+/** Session methods that show a signing dialog, see [[lockSigning]] */
+interface LockableSession {
+  transact: SigningMethod
+  transactBatch?: SigningMethod
+  makeSignatureProvider?: () => {sign: SigningMethod}
+}
+
+/**
+ * Run the signing requests of all tabs one at a time using the Web Locks API,
+ * so only one tab shows a signing dialog. Covers `transact`, `transactBatch` and the `sign`
+ * method of signature providers. Requests run right away without lock support.
+ */
+export const lockSigning = <T extends LockableSession>(session: T, lockName: string) => {
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+  if (locks) {
+    const locked = <M extends SigningMethod>(method: M) =>
+      ((...args: any[]) => locks.request(lockName, () => method(...args))) as M
+    session.transact = locked(session.transact.bind(session))
+    if (session.transactBatch) {
+      session.transactBatch = locked(session.transactBatch.bind(session))
+    }
+    if (session.makeSignatureProvider) {
+      const makeSignatureProvider = session.makeSignatureProvider.bind(session)
+      session.makeSignatureProvider = () => {
+        const provider = makeSignatureProvider()
+        return {...provider, sign: locked(provider.sign.bind(provider))}
+      }
+    }
+  }
+  return session
+}
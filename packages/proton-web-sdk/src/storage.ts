@@ -1,4 +1,7 @@
+import {EncryptedLinkStorage} from '@proton/link'
 import type {LinkStorage} from '@proton/link'
+import {channelName, SyncedStorage} from './sessionSync'
+import type {LocalLinkOptions} from './types'
 
 export class Storage implements LinkStorage {
   constructor(readonly keyPrefix: string) {}
@@ -19,3 +22,19 @@ export class Storage implements LinkStorage {
     return `${this.keyPrefix}-${key}`
   }
 }
+
+/** Storage for the link options, encrypted and synced between tabs when enabled */
+export const createStorage = (linkOptions: LocalLinkOptions) => {
+  let storage = linkOptions.storage || new Storage(linkOptions.storagePrefix || 'proton-storage')
+  if (storage instanceof SyncedStorage) {
+    // already set up, e.g. by an earlier ConnectWallet call
+    return storage
+  }
+  if (linkOptions.encryptStorage && !(storage instanceof EncryptedLinkStorage)) {
+    storage = new EncryptedLinkStorage(storage)
+  }
+  if (linkOptions.syncTabs !== false && !(storage instanceof SyncedStorage)) {
+    storage = new SyncedStorage(storage, channelName(linkOptions.storagePrefix || 'proton-storage'))
+  }
+  return storage
+}
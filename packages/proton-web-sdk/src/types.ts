@@ -1,5 +1,13 @@
-import type {Link, LinkOptions, LinkSession, LinkStorage, LoginResult} from '@proton/link'
+import type {
+  Link,
+  LinkChainConfig,
+  LinkOptions,
+  LinkSession,
+  LinkStorage,
+  LoginResult,
+} from '@proton/link'
 import type {BrowserTransportOptions} from '@proton/browser-transport'
+import type {CleosLink, CleosLinkOptions} from './links/cleos'
 import type {ProtonWebLink} from './links/protonWeb'
 
 type PartialBy<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>
@@ -24,12 +32,38 @@ export interface SelectorOptions {
   customStyleOptions?: CustomStyleOptions
 }
 
-export type LocalLinkOptions = PartialBy<LinkOptions, 'transport' | 'chains' | 'scheme'> & {
+export type LocalChainOptions = Omit<LinkChainConfig, 'nodeUrl'> & {
+  /** RPC endpoints of the chain. */
   endpoints: string[]
+}
+
+export type LocalLinkOptions = PartialBy<Omit<LinkOptions, 'chains'>, 'transport' | 'scheme'> & {
+  /** RPC endpoints, not needed when `chains` is set. */
+  endpoints?: string[]
+  /**
+   * Chains to configure together, e.g. mainnet and testnet. The chain matching `chainId`,
+   * or the first one, is active. Switch with `link.setActiveChain()` and log in once per chain.
+   */
+  chains?: LocalChainOptions[]
   storage?: LinkStorage
   storagePrefix?: string
+  /**
+   * Encrypt stored sessions with a non-extractable key kept in IndexedDB,
+   * sessions stored without encryption are migrated on first read.
+   */
+  encryptStorage?: boolean
+  /**
+   * Announce logins and logouts to other tabs, see `onSessionChanged`, and show signing
+   * requests of one tab at a time. Default true
+   */
+  syncTabs?: boolean
   restoreSession?: boolean
   testUrl?: string
+  /**
+   * Keys for the `cleos` developer wallet, only listed in the selector when
+   * `cleos` is also included in `enabledWalletTypes`. Never ship real keys.
+   */
+  cleos?: CleosLinkOptions
 }
 
 export interface ConnectWalletArgs {
@@ -40,11 +74,23 @@ export interface ConnectWalletArgs {
 
 export interface ConnectWalletRet {
   session?: LinkSession
-  link?: ProtonWebLink | Link
+  link?: ProtonWebLink | CleosLink | Link
   loginResult?: LoginResult
   error?: any
 }
 
+export interface SessionChange {
+  /** Account logged in, null after logout */
+  auth: {actor: string; permission: string} | null
+  /** Wallet the account logged in with */
+  walletType: string | null
+}
+
+export interface SessionChangedEvent extends SessionChange {
+  /** Restore the session in this tab without prompting, ConnectWallet with restoreSession */
+  restore: () => Promise<ConnectWalletRet>
+}
+
 export interface WalletItem {
   key: string
   value: string
@@ -54,4 +100,5 @@ export interface LoginOptions {
   selectorOptions: SelectorOptions
   linkOptions: LocalLinkOptions
   transportOptions: BrowserTransportOptions
+  chains: LinkChainConfig[]
 }
@@ -1,4 +1,5 @@
 import {mount, unmount} from 'svelte'
+import {CancelError} from '@proton/link'
 import {DIALOG_STATE} from './state.svelte'
 import {CustomStyleOptionsToVarsMap} from './styles'
 import type {CustomStyleOptions, WalletItem} from './types'
@@ -53,7 +54,7 @@ export default class WalletTypeSelector {
 
         this.dialogProps.close = () => {
           this.hideSelector()
-          reject('no wallet selected')
+          reject(new CancelError('no wallet selected'))
         }
 
         this.dialogProps.show = true
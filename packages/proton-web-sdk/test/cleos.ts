@@ -0,0 +1,121 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {readFileSync} from 'fs'
+import {join as joinPath} from 'path'
+import {ABI, PrivateKey, Serializer, Transaction} from '@greymass/eosio'
+
+import {CleosLink, parseKeystore} from '../src/links/cleos'
+
+const chainId = 'beefface00000000000000000000000000000000000000000000000000000000'
+const key = PrivateKey.from('5KQvfsPJ9YvGuVbLRLXVWPNubed6FWvV8yax6cNSJEzB4co3zFu')
+const tokenAbi = ABI.from(
+  JSON.parse(readFileSync(joinPath(__dirname, 'abis', 'eosio.token.json'), 'utf8'))
+)
+
+class TestRpc {
+  pushed: {signatures: string[]; serializedTransaction: Uint8Array}[] = []
+  async get_info() {
+    return {
+      head_block_time: '2021-01-01T00:00:00',
+      last_irreversible_block_num: 123456700,
+      last_irreversible_block_id:
+        '075bcd3c2b1ab8e0e2e7b0d5a1e7e9e0b4a3c2d1e0f9a8b7c6d5e4f3a2b1c0d9',
+    }
+  }
+  async get_abi(account: string) {
+    return {account_name: account, abi: tokenAbi}
+  }
+  async getRequiredKeys({availableKeys}: {availableKeys: string[]}) {
+    return availableKeys
+  }
+  async push_transaction(args: {signatures: string[]; serializedTransaction: Uint8Array}) {
+    this.pushed.push(args)
+    return {processed: {id: 'beef'}}
+  }
+}
+
+function createLink(rpc = new TestRpc()) {
+  return new CleosLink({
+    chainId,
+    client: rpc,
+    cleos: {keys: [String(key)]},
+  } as any)
+}
+
+suite('cleos', function () {
+  test('parse keystores', function () {
+    const expected = [String(key)]
+    assert.deepEqual(parseKeystore([String(key)]).map(String), expected)
+    assert.deepEqual(
+      parseKeystore(JSON.stringify([[String(key.toPublic()), String(key)]])).map(String),
+      expected
+    )
+    assert.deepEqual(parseKeystore({[String(key.toPublic())]: String(key)}).map(String), expected)
+  })
+
+  test('resolve placeholders', async function () {
+    const rpc = new TestRpc()
+    const {session} = await createLink(rpc).login('alice')
+    const result = await session.transact({
+      actions: [
+        {
+          account: 'eosio.token',
+          name: 'transfer',
+          authorization: [{actor: '............1', permission: '............2'}],
+          data: {from: '............1', to: 'bob', quantity: '1.0000 XPR', memo: 'hi'},
+        },
+        {
+          account: 'eosio.token',
+          name: 'transfer',
+          authorization: [{actor: 'bob', permission: 'active'}],
+          data: Serializer.encode({
+            object: {from: 'bob', to: '............1', quantity: '2.0000 XPR', memo: ''},
+            type: 'transfer',
+            abi: tokenAbi,
+          }),
+        },
+      ],
+    })
+    const [first, second] = result.transaction.actions
+    assert.equal(String(first.authorization[0]), 'alice@active')
+    assert.equal(Serializer.objectify(first.decodeData(tokenAbi)).from, 'alice')
+    assert.equal(String(second.authorization[0]), 'bob@active')
+    assert.equal(Serializer.objectify(second.decodeData(tokenAbi)).to, 'alice')
+    // signed and broadcast
+    assert.equal(rpc.pushed.length, 1)
+    const pushed = Serializer.decode({data: rpc.pushed[0].serializedTransaction, type: Transaction})
+    assert.ok(pushed.equals(result.transaction))
+    const signer = result.signatures[0].recoverDigest(result.transaction.signingDigest(chainId))
+    assert.ok(signer.equals(key.toPublic()))
+  })
+
+  test('fill zeroed transaction headers', async function () {
+    const {session} = await createLink().login('alice')
+    const data = {from: 'alice', to: 'bob', quantity: '1.0000 XPR', memo: '............1'}
+    const action = {
+      account: 'eosio.token',
+      name: 'transfer',
+      authorization: [{actor: 'alice', permission: 'active'}],
+      data,
+    }
+    const {transaction} = await session.transact(
+      {
+        transaction: {
+          expiration: '1970-01-01T00:00:00',
+          ref_block_num: 0,
+          ref_block_prefix: 0,
+          max_cpu_usage_ms: 5,
+          actions: [action],
+        },
+      },
+      {broadcast: false}
+    )
+    assert.equal(String(transaction.expiration), '2021-01-01T00:02:00')
+    assert.equal(Number(transaction.ref_block_num), 123456700 & 0xffff)
+    assert.notEqual(Number(transaction.ref_block_prefix), 0)
+    assert.equal(Number(transaction.max_cpu_usage_ms), 5)
+    // strings are not names, the action passed in is not modified
+    assert.equal(Serializer.objectify(transaction.actions[0].decodeData(tokenAbi)).memo, data.memo)
+    assert.equal(action.data, data)
+  })
+})
@@ -0,0 +1,77 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {ProtonWebLink} from '../src/links/protonWeb'
+
+class TestChild {
+  closed = false
+  urls: string[] = []
+  posted: any[] = []
+  location = {replace: (url: string) => this.urls.push(url)}
+  close() {
+    this.closed = true
+  }
+  postMessage(message: string) {
+    this.posted.push(JSON.parse(message))
+  }
+}
+
+const globals = globalThis as any
+const auth = {actor: 'alice', permission: 'active'}
+
+suite('webauth', function () {
+  let saved: {window: any; setInterval: any}
+  let opened: TestChild[]
+  setup(function () {
+    saved = {window: globals.window, setInterval: globals.setInterval}
+    opened = []
+    globals.window = {
+      addEventListener: () => undefined,
+      open: () => {
+        const child = new TestChild()
+        opened.push(child)
+        return child
+      },
+    }
+    globals.setInterval = () => undefined
+  })
+  teardown(function () {
+    globals.window = saved.window
+    globals.setInterval = saved.setInterval
+  })
+
+  const createLink = () =>
+    new ProtonWebLink({
+      scheme: 'proton',
+      chainId: '384da888112027f0321850a169f737c33e53b388aad48b5adace4bab97f437e0',
+      transport: {},
+    } as any)
+
+  const send = (link: ProtonWebLink, type: string, data?: any) =>
+    link.onEvent({origin: 'https://webauth.com', data: JSON.stringify({type, data})} as any)
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+  test('queued transactions reuse the wallet window', async function () {
+    const link = createLink()
+    const session = link.createSession(auth)
+    const first = session.transact({actions: []})
+    const second = session.transact({actions: []})
+    await flush()
+    assert.equal(opened.length, 1)
+    const [child] = opened
+    await send(link, 'isReady')
+    await send(link, 'transactionSuccess', 'one')
+    assert.equal(await first, 'one')
+    await flush()
+    // the window stays open and is navigated to the next transaction
+    assert.equal(child.closed, false)
+    assert.deepEqual(child.urls, ['https://webauth.com/auth'])
+    await send(link, 'isReady')
+    await send(link, 'transactionSuccess', 'two')
+    assert.equal(await second, 'two')
+    assert.equal(child.posted.length, 2)
+    assert.equal(child.closed, true)
+    assert.equal(opened.length, 1)
+  })
+})
@@ -0,0 +1,183 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {EncryptedLinkStorage} from '@proton/link'
+import type {LinkStorage} from '@proton/link'
+
+import {listenSessionChanges, lockSigning, SESSION_KEY, SyncedStorage} from '../src/sessionSync'
+import {createStorage, Storage} from '../src/storage'
+import type {SessionChange} from '../src/types'
+
+class MemoryStorage implements LinkStorage {
+  data = new Map<string, string>()
+  async write(key: string, data: string) {
+    this.data.set(key, data)
+  }
+  async read(key: string) {
+    return this.data.get(key) || null
+  }
+  async remove(key: string) {
+    this.data.delete(key)
+  }
+}
+
+/** Broadcast channel stub delivering messages to the other open channels with the same name */
+class TestChannel {
+  static open = new Set<TestChannel>()
+  static posted: {name: string; data: any}[] = []
+  onmessage?: (_event: {data: any}) => void
+  constructor(readonly name: string) {
+    TestChannel.open.add(this)
+  }
+  postMessage(data: any) {
+    TestChannel.posted.push({name: this.name, data})
+    for (const channel of TestChannel.open) {
+      if (channel !== this && channel.name === this.name && channel.onmessage) {
+        channel.onmessage({data})
+      }
+    }
+  }
+  close() {
+    TestChannel.open.delete(this)
+  }
+}
+
+const globals = globalThis as any
+const auth = {actor: 'alice', permission: 'active'}
+
+suite('session sync', function () {
+  let saved: {[key: string]: PropertyDescriptor | undefined}
+  setup(function () {
+    saved = {}
+    for (const key of ['BroadcastChannel', 'navigator', 'window']) {
+      saved[key] = Object.getOwnPropertyDescriptor(globalThis, key)
+    }
+    TestChannel.open.clear()
+    TestChannel.posted = []
+    globals.BroadcastChannel = TestChannel
+  })
+  teardown(function () {
+    for (const key of Object.keys(saved)) {
+      if (saved[key]) {
+        Object.defineProperty(globalThis, key, saved[key]!)
+      } else {
+        delete globals[key]
+      }
+    }
+  })
+
+  test('announce session changes', async function () {
+    const storage = new SyncedStorage(new MemoryStorage(), 'test-sync')
+    await storage.write('wallet-type', 'webauth')
+    assert.equal(TestChannel.posted.length, 0)
+    await storage.write(SESSION_KEY, JSON.stringify(auth))
+    await storage.remove(SESSION_KEY)
+    assert.deepEqual(
+      TestChannel.posted.map(({name, data}) => [name, data.auth, data.walletType]),
+      [
+        ['test-sync', auth, 'webauth'],
+        ['test-sync', null, 'webauth'],
+      ]
+    )
+    assert.equal(TestChannel.open.size, 0)
+    assert.equal(await storage.read('wallet-type'), 'webauth')
+  })
+
+  test('listen for other tabs', async function () {
+    const storage = new SyncedStorage(new MemoryStorage(), 'test-sync')
+    const changes: SessionChange[] = []
+    const stop = listenSessionChanges(storage, 'test', (change) => changes.push(change))
+    // own announcements are ignored
+    await storage.write(SESSION_KEY, JSON.stringify(auth))
+    assert.equal(changes.length, 0)
+    new TestChannel('test-sync').postMessage({auth, walletType: 'anchor', tab: 'other'})
+    assert.deepEqual(changes, [{auth, walletType: 'anchor'}])
+    stop()
+    new TestChannel('test-sync').postMessage({auth: null, walletType: null, tab: 'other'})
+    assert.equal(changes.length, 1)
+  })
+
+  test('storage events without broadcast channels', async function () {
+    delete globals.BroadcastChannel
+    const listeners = new Set<(_event: any) => void>()
+    globals.window = {
+      addEventListener: (_type: string, listener: any) => listeners.add(listener),
+      removeEventListener: (_type: string, listener: any) => listeners.delete(listener),
+    }
+    const storage = new MemoryStorage()
+    const changes: SessionChange[] = []
+    const stop = listenSessionChanges(storage, 'test', (change) => changes.push(change))
+    await storage.write(SESSION_KEY, JSON.stringify(auth))
+    const emit = (key: string) => Promise.all(Array.from(listeners).map((l) => l({key})))
+    await emit('test-wallet-type')
+    await emit('test-user-auth')
+    assert.deepEqual(changes, [{auth, walletType: null}])
+    stop()
+    assert.equal(listeners.size, 0)
+  })
+
+  test('create storage', function () {
+    const storage = createStorage({storagePrefix: 'test', encryptStorage: true} as any)
+    assert.ok(storage instanceof SyncedStorage)
+    assert.equal(storage.channelName, 'test-sync')
+    assert.ok(storage.storage instanceof EncryptedLinkStorage)
+    assert.ok(storage.storage.storage instanceof Storage)
+    assert.equal(storage.storage.storage.keyPrefix, 'test')
+    // storage set up by ConnectWallet is not wrapped again
+    assert.equal(createStorage({storage, encryptStorage: true} as any), storage)
+    const plain = createStorage({syncTabs: false} as any)
+    assert.ok(plain instanceof Storage)
+    assert.equal(plain.keyPrefix, 'proton-storage')
+  })
+
+  test('lock signing', async function () {
+    const locks: string[] = []
+    let held = Promise.resolve()
+    globals.navigator = {
+      locks: {
+        request: (name: string, callback: () => Promise<any>) => {
+          locks.push(name)
+          const result = held.then(callback)
+          held = result.then(
+            () => undefined,
+            () => undefined
+          )
+          return result
+        },
+      },
+    }
+    let running = 0
+    const calls: string[] = []
+    const request = async (memo: string) => {
+      assert.equal(running++, 0, 'only one request at a time')
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      calls.push(memo)
+      running--
+      return memo
+    }
+    const session = lockSigning(
+      {
+        transact: request,
+        transactBatch: request,
+        makeSignatureProvider: () => ({getAvailableKeys: async () => [], sign: request}),
+      },
+      'test-signing'
+    )
+    const results = await Promise.all([
+      session.transact('one'),
+      session.transactBatch('two'),
+      session.makeSignatureProvider().sign('three'),
+    ])
+    assert.deepEqual(results, ['one', 'two', 'three'])
+    assert.deepEqual(calls, ['one', 'two', 'three'])
+    assert.deepEqual(locks, ['test-signing', 'test-signing', 'test-signing'])
+    assert.deepEqual(await session.makeSignatureProvider().getAvailableKeys(), [])
+  })
+
+  test('sign without locks', async function () {
+    delete globals.navigator
+    const transact = async () => 'done'
+    const session = lockSigning({transact}, 'test-signing')
+    assert.equal(session.transact, transact)
+    assert.equal(await session.transact(), 'done')
+  })
+})